@@ -7,7 +7,13 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Upload, X, FileText, ArrowLeft, Download, GripVertical } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { downloadFile, createMergedDocument } from "@/utils/downloadUtils";
+import { downloadFile, createMergedDocument, ConversionStatus } from "@/utils/downloadUtils";
+import { getPageCount } from "@/utils/pageCount";
+import { formatPageList, parsePageRanges } from "@/utils/pageRanges";
+import { DocxBreak } from "@/utils/docxMerge";
+import { PptxMasterMode } from "@/utils/pptxMerge";
+import { canConvertToPdf } from "@/utils/pdfConvert";
+import { PdfSeparatorMode, interleaveLists } from "@/utils/pdfMerge";
 
 interface MergeDocumentsProps {
   onBack: () => void;
@@ -20,9 +26,25 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
   const [progress, setProgress] = useState(0);
   const [outputFilename, setOutputFilename] = useState("merged-document");
   const [mergedBlob, setMergedBlob] = useState<Blob | null>(null);
+  // Keyed by file so the settings follow a file when the list is reordered
+  const [pageCounts, setPageCounts] = useState<Map<File, number>>(new Map());
+  const [pageRangeInputs, setPageRangeInputs] = useState<Map<File, string>>(new Map());
+  const [addBookmarks, setAddBookmarks] = useState(true);
+  const [bookmarkTitles, setBookmarkTitles] = useState<'filename' | 'documentTitle'>('filename');
+  const [documentBreak, setDocumentBreak] = useState<DocxBreak>('page');
+  const [slideMasters, setSlideMasters] = useState<PptxMasterMode>('keep');
+  const [normalizeToPdf, setNormalizeToPdf] = useState(false);
+  const [interleave, setInterleave] = useState(false);
+  const [reversedFiles, setReversedFiles] = useState<Map<File, boolean>>(new Map());
+  const [sourceFileColumn, setSourceFileColumn] = useState(true);
+  const [addCoverPage, setAddCoverPage] = useState(false);
+  const [coverTitle, setCoverTitle] = useState("");
+  const [separatorPages, setSeparatorPages] = useState<PdfSeparatorMode>('none');
+  const [tableOfContents, setTableOfContents] = useState(false);
+  const [conversionStatus, setConversionStatus] = useState<Map<File, { status: ConversionStatus; error?: string }>>(new Map());
   const { toast } = useToast();
 
-  const acceptedTypes = ['.pdf', '.docx', '.doc', '.txt', '.pptx', '.ppt'];
+  const acceptedTypes = ['.pdf', '.docx', '.doc', '.txt', '.csv', '.pptx', '.ppt', '.jpg', '.jpeg', '.png'];
   const maxTotalSize = 100 * 1024 * 1024; // 100MB
 
   const validateFile = (file: File) => {
@@ -30,7 +52,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
     if (!acceptedTypes.includes(extension)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload PDF, Word, TXT, or PowerPoint files only.",
+        description: "Please upload PDF, Word, TXT, CSV, PowerPoint, or image files only.",
         variant: "destructive",
       });
       return false;
@@ -51,13 +73,92 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
     return true;
   };
 
+  const isPdfFile = (file: File) => file.name.split('.').pop()?.toLowerCase() === 'pdf';
+
+  const isImageFile = (file: File) => ['jpg', 'jpeg', 'png'].includes(file.name.split('.').pop()?.toLowerCase() ?? '');
+
+  // Different formats and images can only be combined as PDF
+  const requiresPdfNormalization = (files: File[]) =>
+    new Set(files.map(file => file.name.split('.').pop()?.toLowerCase())).size > 1 || files.some(isImageFile);
+
+  const isNormalizing = (files: File[]) =>
+    !files.every(isPdfFile) && (normalizeToPdf || requiresPdfNormalization(files));
+
   const canMergeFiles = (files: File[]) => {
     if (files.length < 2) return false;
+    if (isNormalizing(files)) return files.every(file => canConvertToPdf(file.name));
     const extensions = files.map(file => file.name.split('.').pop()?.toLowerCase());
     const uniqueExtensions = new Set(extensions);
     return uniqueExtensions.size === 1; // All files must have same extension
   };
 
+  const getOutputExtension = () =>
+    isNormalizing(uploadedFiles) ? 'pdf' : uploadedFiles[0].name.split('.').pop()?.toLowerCase() || 'pdf';
+
+  const getConversionLabel = (file: File) => {
+    if (!canConvertToPdf(file.name)) return { text: 'Cannot be converted to PDF', className: 'bg-red-500/20 text-red-400' };
+    switch (conversionStatus.get(file)?.status) {
+      case 'converting':
+        return { text: 'Converting...', className: 'bg-yellow-500/20 text-yellow-400' };
+      case 'converted':
+        return { text: 'Converted to PDF', className: 'bg-green-500/20 text-green-400' };
+      case 'failed':
+        return { text: 'Conversion failed', className: 'bg-red-500/20 text-red-400' };
+      default:
+        return { text: 'Will be converted to PDF', className: 'bg-muted text-muted-foreground' };
+    }
+  };
+
+  const loadPageCounts = (files: File[]) => {
+    files.filter(isPdfFile).forEach(async (file) => {
+      try {
+        const count = await getPageCount(file);
+        setPageCounts(prev => new Map(prev).set(file, count));
+      } catch (error) {
+        console.error(`Page count error for ${file.name}:`, error);
+      }
+    });
+  };
+
+  const parseFileRanges = (file: File) => {
+    const ranges = pageRangeInputs.get(file)?.trim();
+    if (!ranges || !isPdfFile(file)) return null;
+    return parsePageRanges(ranges, pageCounts.get(file) ?? null);
+  };
+
+  // null means every page of the file
+  const getSelectedPages = (file: File): number[] | null => parseFileRanges(file)?.groups.flat() ?? null;
+
+  const getPageRangeErrors = (file: File): string[] => parseFileRanges(file)?.errors ?? [];
+
+  const hasInvalidPageRanges = (files: File[]) =>
+    files.some(file => getPageRangeErrors(file).length > 0);
+
+  const updatePageRange = (file: File, ranges: string) => {
+    setPageRangeInputs(prev => new Map(prev).set(file, ranges));
+    // Reset merged file if the page selection changes
+    setMergedBlob(null);
+    setProgress(0);
+  };
+
+  const updateReversed = (file: File, reversed: boolean) => {
+    setReversedFiles(prev => new Map(prev).set(file, reversed));
+    setMergedBlob(null);
+    setProgress(0);
+  };
+
+  // Maps each file's selected pages onto their positions in the merged output
+  const getMergeSequence = () => {
+    const segments = uploadedFiles.map(file => {
+      const count = pageCounts.get(file);
+      const pages = getSelectedPages(file) ?? (count ? Array.from({ length: count }, (_, i) => i + 1) : []);
+      return { file, pages, outputPages: [] as number[] };
+    });
+    const slots = segments.map(segment => segment.pages.map(() => segment));
+    (interleave ? interleaveLists(slots) : slots.flat()).forEach((segment, index) => segment.outputPages.push(index + 1));
+    return segments;
+  };
+
   const handleFileSelect = useCallback((files: FileList | null) => {
     if (!files) return;
 
@@ -71,6 +172,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
     const newFiles = [...uploadedFiles, ...validFiles];
     if (validateTotalSize(newFiles)) {
       setUploadedFiles(newFiles);
+      loadPageCounts(validFiles);
       toast({
         title: "Files uploaded successfully",
         description: `${validFiles.length} file(s) added.`,
@@ -116,7 +218,20 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
     if (!canMergeFiles(uploadedFiles)) {
       toast({
         title: "Cannot merge files",
-        description: "All files must be of the same type to merge.",
+        description: isNormalizing(uploadedFiles)
+          ? "Legacy .doc and .ppt files cannot be converted to PDF."
+          : "All files must be of the same type to merge.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (hasInvalidPageRanges(uploadedFiles)) {
+      toast({
+        title: "Invalid page ranges",
+        description: uploadedFiles
+          .flatMap(file => getPageRangeErrors(file).map(error => `${file.name}: ${error}`))
+          .join('. '),
         variant: "destructive",
       });
       return;
@@ -134,11 +249,26 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
     setIsProcessing(true);
     setProgress(0);
     setMergedBlob(null);
+    setConversionStatus(new Map());
 
     try {
       // Create merged file using actual file content
-      const fileExtension = uploadedFiles[0].name.split('.').pop()?.toLowerCase() || 'pdf';
-      const mergedFile = await createMergedDocument(uploadedFiles, `${outputFilename}.${fileExtension}`);
+      const fileExtension = getOutputExtension();
+      const mergedFile = await createMergedDocument(uploadedFiles, `${outputFilename}.${fileExtension}`, {
+        pageSelections: uploadedFiles.map(getSelectedPages),
+        bookmarks: addBookmarks ? bookmarkTitles : 'none',
+        documentBreak,
+        slideMasters,
+        sourceFileColumn,
+        normalizeToPdf: isNormalizing(uploadedFiles),
+        interleave,
+        reversedFiles: interleave ? uploadedFiles.map(file => reversedFiles.get(file) ?? false) : undefined,
+        coverTitle: addCoverPage ? coverTitle.trim() || outputFilename : undefined,
+        separatorPages,
+        tableOfContents,
+        onConversionStatus: (file, status, error) =>
+          setConversionStatus(prev => new Map(prev).set(file, { status, error })),
+      });
       
       // Simulate progress for UI feedback
       const interval = setInterval(() => {
@@ -161,7 +291,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
       setIsProcessing(false);
       toast({
         title: "Merge Failed",
-        description: "An error occurred while merging the documents.",
+        description: error instanceof Error ? error.message : "An error occurred while merging the documents.",
         variant: "destructive",
       });
     }
@@ -178,7 +308,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
     }
 
     try {
-      const fileExtension = uploadedFiles[0].name.split('.').pop()?.toLowerCase() || 'pdf';
+      const fileExtension = getOutputExtension();
       const filename = `${outputFilename}.${fileExtension}`;
       
       downloadFile(mergedBlob, filename, mergedBlob.type);
@@ -218,7 +348,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
         </Button>
         <div>
           <h2 className="text-2xl font-bold">Merge Documents</h2>
-          <p className="text-muted-foreground">Combine multiple documents of the same type</p>
+          <p className="text-muted-foreground">Combine multiple documents into one</p>
         </div>
       </div>
 
@@ -242,7 +372,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
               <div>
                 <h3 className="text-lg font-semibold mb-2">Drop your files here, or click to browse</h3>
                 <p className="text-muted-foreground">
-                  Supports PDF, Word, TXT, and PowerPoint files (max 100MB total)
+                  Supports PDF, Word, TXT, CSV, PowerPoint, and image files (max 100MB total)
                 </p>
               </div>
               <Button
@@ -257,7 +387,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
               id="merge-file-input"
               type="file"
               multiple
-              accept=".pdf,.docx,.doc,.txt,.pptx,.ppt"
+              accept=".pdf,.docx,.doc,.txt,.csv,.pptx,.ppt,.jpg,.jpeg,.png"
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               onChange={(e) => handleFileSelect(e.target.files)}
             />
@@ -302,7 +432,44 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
                           {file.name.split('.').pop()?.toUpperCase()}
                         </span>
                         <span>{formatFileSize(file.size)}</span>
+                        {pageCounts.has(file) && <span>{pageCounts.get(file)} pages</span>}
+                        {isNormalizing(uploadedFiles) && !isPdfFile(file) && (
+                          <span
+                            className={`px-2 py-0.5 rounded ${getConversionLabel(file).className}`}
+                            title={conversionStatus.get(file)?.error}
+                          >
+                            {getConversionLabel(file).text}
+                          </span>
+                        )}
                       </div>
+                      {interleave && (isPdfFile(file) || isNormalizing(uploadedFiles)) && (
+                        <div className="flex items-center space-x-2 mt-2">
+                          <input
+                            type="checkbox"
+                            id={`reverse-${index}`}
+                            checked={reversedFiles.get(file) ?? false}
+                            onChange={(e) => updateReversed(file, e.target.checked)}
+                            className="rounded border-border"
+                          />
+                          <Label htmlFor={`reverse-${index}`} className="text-xs text-muted-foreground">
+                            Reverse page order
+                          </Label>
+                        </div>
+                      )}
+                      {isPdfFile(file) && (
+                        <div className="flex items-center space-x-2 mt-2">
+                          <Input
+                            value={pageRangeInputs.get(file) ?? ''}
+                            onChange={(e) => updatePageRange(file, e.target.value)}
+                            placeholder="All pages (e.g., 1-3, 7, z)"
+                            aria-label={`Pages to include from ${file.name}`}
+                            className="h-8 w-56 text-xs"
+                          />
+                          {getPageRangeErrors(file).length > 0 && (
+                            <span className="text-xs text-red-400">{getPageRangeErrors(file).join('; ')}</span>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <Button
@@ -336,14 +503,246 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
               />
             </div>
 
+            {!uploadedFiles.every(isPdfFile) && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="normalize-to-pdf"
+                  checked={isNormalizing(uploadedFiles)}
+                  disabled={requiresPdfNormalization(uploadedFiles)}
+                  onChange={(e) => {
+                    setNormalizeToPdf(e.target.checked);
+                    setMergedBlob(null);
+                    setProgress(0);
+                  }}
+                  className="rounded border-border"
+                />
+                <Label htmlFor="normalize-to-pdf">
+                  Convert all files to PDF before merging
+                  {requiresPdfNormalization(uploadedFiles) && " (required for different file types and images)"}
+                </Label>
+              </div>
+            )}
+
+            {(uploadedFiles.every(isPdfFile) || isNormalizing(uploadedFiles)) && (
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="page-order">Page order</Label>
+                <select
+                  id="page-order"
+                  value={interleave ? 'interleave' : 'append'}
+                  onChange={(e) => {
+                    setInterleave(e.target.value === 'interleave');
+                    setMergedBlob(null);
+                    setProgress(0);
+                  }}
+                  className="text-xs bg-background border border-border rounded px-2 py-1"
+                >
+                  <option value="append">One document after another</option>
+                  <option value="interleave">Interleave pages (collate double-sided scans)</option>
+                </select>
+              </div>
+            )}
+
+            {(uploadedFiles.every(isPdfFile) || isNormalizing(uploadedFiles)) && (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="add-bookmarks"
+                    checked={addBookmarks}
+                    onChange={(e) => {
+                      setAddBookmarks(e.target.checked);
+                      setMergedBlob(null);
+                      setProgress(0);
+                    }}
+                    className="rounded border-border"
+                  />
+                  <Label htmlFor="add-bookmarks">
+                    Add a bookmark for each document (existing bookmarks are nested underneath)
+                  </Label>
+                </div>
+                {addBookmarks && (
+                  <div className="flex items-center space-x-2 pl-6">
+                    <Label htmlFor="bookmark-titles" className="text-sm text-muted-foreground">
+                      Bookmark titles
+                    </Label>
+                    <select
+                      id="bookmark-titles"
+                      value={bookmarkTitles}
+                      onChange={(e) => {
+                        setBookmarkTitles(e.target.value as 'filename' | 'documentTitle');
+                        setMergedBlob(null);
+                        setProgress(0);
+                      }}
+                      className="text-xs bg-background border border-border rounded px-2 py-1"
+                    >
+                      <option value="filename">File name</option>
+                      <option value="documentTitle">Document title</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {(uploadedFiles.every(isPdfFile) || isNormalizing(uploadedFiles)) && (
+              <div className="space-y-3">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="add-cover-page"
+                    checked={addCoverPage}
+                    onChange={(e) => {
+                      setAddCoverPage(e.target.checked);
+                      setMergedBlob(null);
+                      setProgress(0);
+                    }}
+                    className="rounded border-border"
+                  />
+                  <Label htmlFor="add-cover-page">Add a cover page with the date and the list of documents</Label>
+                </div>
+                {addCoverPage && (
+                  <div className="pl-6">
+                    <Input
+                      value={coverTitle}
+                      onChange={(e) => {
+                        setCoverTitle(e.target.value);
+                        setMergedBlob(null);
+                        setProgress(0);
+                      }}
+                      placeholder={outputFilename || "Cover page title"}
+                      aria-label="Cover page title"
+                      className="h-8 w-72 text-xs"
+                    />
+                  </div>
+                )}
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="table-of-contents"
+                    checked={tableOfContents}
+                    onChange={(e) => {
+                      setTableOfContents(e.target.checked);
+                      setMergedBlob(null);
+                      setProgress(0);
+                    }}
+                    className="rounded border-border"
+                  />
+                  <Label htmlFor="table-of-contents">Add a table of contents linking to each document</Label>
+                </div>
+                {!interleave && (
+                  <div className="flex items-center space-x-2">
+                    <Label htmlFor="separator-pages">Between documents</Label>
+                    <select
+                      id="separator-pages"
+                      value={separatorPages}
+                      onChange={(e) => {
+                        setSeparatorPages(e.target.value as PdfSeparatorMode);
+                        setMergedBlob(null);
+                        setProgress(0);
+                      }}
+                      className="text-xs bg-background border border-border rounded px-2 py-1"
+                    >
+                      <option value="none">Nothing</option>
+                      <option value="blank">Blank page</option>
+                      <option value="titled">Page with the next document's name</option>
+                    </select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!isNormalizing(uploadedFiles) && uploadedFiles.every(file => file.name.toLowerCase().endsWith('.docx')) && (
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="document-break">Between documents</Label>
+                <select
+                  id="document-break"
+                  value={documentBreak}
+                  onChange={(e) => {
+                    setDocumentBreak(e.target.value as DocxBreak);
+                    setMergedBlob(null);
+                    setProgress(0);
+                  }}
+                  className="text-xs bg-background border border-border rounded px-2 py-1"
+                >
+                  <option value="page">Page break</option>
+                  <option value="section">Section break (keeps each document's page setup, headers and footers)</option>
+                  <option value="none">Nothing (continue on the same page)</option>
+                </select>
+              </div>
+            )}
+
+            {!isNormalizing(uploadedFiles) && uploadedFiles.every(file => file.name.toLowerCase().endsWith('.pptx')) && (
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="slide-masters">Slide design</Label>
+                <select
+                  id="slide-masters"
+                  value={slideMasters}
+                  onChange={(e) => {
+                    setSlideMasters(e.target.value as PptxMasterMode);
+                    setMergedBlob(null);
+                    setProgress(0);
+                  }}
+                  className="text-xs bg-background border border-border rounded px-2 py-1"
+                >
+                  <option value="keep">Keep each presentation's master</option>
+                  <option value="first">Use the first presentation's master for all slides</option>
+                </select>
+              </div>
+            )}
+
+            {!isNormalizing(uploadedFiles) && uploadedFiles.every(file => file.name.toLowerCase().endsWith('.csv')) && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="source-file-column"
+                  checked={sourceFileColumn}
+                  onChange={(e) => {
+                    setSourceFileColumn(e.target.checked);
+                    setMergedBlob(null);
+                    setProgress(0);
+                  }}
+                  className="rounded border-border"
+                />
+                <Label htmlFor="source-file-column">
+                  Add a source_file column with the name of each row's file
+                </Label>
+              </div>
+            )}
+
             {!canMergeFiles(uploadedFiles) && (
               <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
                 <p className="text-red-400 text-sm">
-                  All files must be of the same type to merge. Please remove files of different types.
+                  {isNormalizing(uploadedFiles)
+                    ? "Legacy .doc and .ppt files cannot be converted to PDF. Please remove them or save them as .docx or .pptx first."
+                    : "All files must be of the same type to merge. Please remove files of different types."}
                 </p>
               </div>
             )}
 
+            {canMergeFiles(uploadedFiles) && uploadedFiles.every(file => isPdfFile(file) && pageCounts.has(file)) && (
+              <div className="space-y-2">
+                <Label>Merged Page Sequence</Label>
+                <div className="p-3 bg-muted/30 rounded-lg space-y-1 text-sm">
+                  {getMergeSequence().map(({ file, pages, outputPages }, index) => (
+                    <div key={index} className="flex justify-between gap-4">
+                      <span className="truncate">
+                        {file.name}: {pages.length > 0 ? `pages ${formatPageList(pages)}` : 'no pages'}
+                        {interleave && reversedFiles.get(file) && pages.length > 1 && ' (reversed)'}
+                      </span>
+                      <span className="text-muted-foreground truncate">
+                        {outputPages.length > 0 ? `→ ${formatPageList(outputPages)}` : '—'}
+                      </span>
+                    </div>
+                  ))}
+                  <p className="text-muted-foreground pt-1">
+                    Total: {getMergeSequence().reduce((sum, segment) => sum + segment.pages.length, 0)} pages
+                    {(addCoverPage || tableOfContents || (!interleave && separatorPages !== 'none')) &&
+                      ' (before the generated cover, contents and separator pages)'}
+                  </p>
+                </div>
+              </div>
+            )}
+
             {isProcessing && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
@@ -357,7 +756,7 @@ export const MergeDocuments = ({ onBack }: MergeDocumentsProps) => {
             <div className="flex gap-4">
               <Button
                 onClick={handleMerge}
-                disabled={!canMergeFiles(uploadedFiles) || isProcessing || !outputFilename.trim()}
+                disabled={!canMergeFiles(uploadedFiles) || hasInvalidPageRanges(uploadedFiles) || isProcessing || !outputFilename.trim()}
                 className="bg-blue-600 hover:bg-blue-700"
               >
                 {isProcessing ? "Merging..." : "Start Merge"}
@@ -8,6 +8,17 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Upload, ArrowLeft, Download, FileText, Scissors } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { downloadFile, createSplitDocuments } from "@/utils/downloadUtils";
+import { getPageCount } from "@/utils/pageCount";
+import { formatPageList, parsePageRanges } from "@/utils/pageRanges";
+import { PdfDocument, getPages, loadPdf } from "@/utils/pdfReader";
+import { readOutline } from "@/utils/pdfOutline";
+import { getBookmarkSections, getOutlineDepth, getPatternSections, getSizeLimitedParts } from "@/utils/pdfSplit";
+import { findBlankPages, splitAtBlankPages } from "@/utils/pdfBlankPages";
+import { SplitPartInfo, fillNamingPattern, validateNamingPattern } from "@/utils/splitNaming";
+import { DocxSection, DocxSplitMode, getDocxSections } from "@/utils/docxSplit";
+import { PptxSection, getPptxSections } from "@/utils/pptxSplit";
+import { TextChunkUnit } from "@/utils/textChunks";
+import { getCsvColumns } from "@/utils/csvUtils";
 
 interface SplitDocumentsProps {
   onBack: () => void;
@@ -18,19 +29,45 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
-  const [splitMethod, setSplitMethod] = useState<'pages' | 'ranges' | 'count'>('pages');
+  const [splitMethod, setSplitMethod] = useState<'pages' | 'ranges' | 'count' | 'bookmarks' | 'size' | 'blank' | 'pattern' | 'structure' | 'chunks' | 'csv'>('pages');
   const [pageRanges, setPageRanges] = useState('');
   const [pageCount, setPageCount] = useState(1);
   const [selectedPages, setSelectedPages] = useState<number[]>([]);
   const [namingPattern, setNamingPattern] = useState('page_{n}');
-  const [splitFiles, setSplitFiles] = useState<{ name: string; content: Blob }[]>([]);
+  const [splitFiles, setSplitFiles] = useState<{ name: string; content: Blob; pages: number[] }[]>([]);
+  const [totalPages, setTotalPages] = useState(0);
+  const [isCountingPages, setIsCountingPages] = useState(false);
+  // Parsed PDF and its outline depth, for splitting by bookmarks
+  const [pdfDocument, setPdfDocument] = useState<PdfDocument | null>(null);
+  const [outlineDepth, setOutlineDepth] = useState(0);
+  const [bookmarkDepth, setBookmarkDepth] = useState(1);
+  const [maxPartSize, setMaxPartSize] = useState(10);
+  // Ink coverage (in percent) below which a scanned page counts as blank
+  const [blankThreshold, setBlankThreshold] = useState(1);
+  const [removeBlankPages, setRemoveBlankPages] = useState(true);
+  // Regular expression that starts a new part on every page it matches
+  const [textPattern, setTextPattern] = useState('');
+  const [ignorePatternCase, setIgnorePatternCase] = useState(true);
+  // Word document and its parts at the chosen level, for splitting by structure
+  const [docxData, setDocxData] = useState<ArrayBuffer | null>(null);
+  const [docxSplitMode, setDocxSplitMode] = useState<DocxSplitMode>('heading1');
+  const [docxSections, setDocxSections] = useState<DocxSection[]>([]);
+  // PowerPoint sections of a presentation
+  const [pptxSections, setPptxSections] = useState<PptxSection[]>([]);
+  // Chunk budget and overlap for text files, and whether chunks go to separate files or one JSONL file
+  const [chunkUnit, setChunkUnit] = useState<TextChunkUnit>('tokens');
+  const [chunkSize, setChunkSize] = useState(500);
+  const [chunkOverlap, setChunkOverlap] = useState(50);
+  const [chunkOutput, setChunkOutput] = useState<'files' | 'jsonl'>('files');
+  // Header columns of a CSV file, and the column (-1 for none) whose values each get their own files
+  const [csvColumns, setCsvColumns] = useState<string[]>([]);
+  const [csvRowsPerPart, setCsvRowsPerPart] = useState(1000);
+  const [csvGroupColumn, setCsvGroupColumn] = useState(-1);
   const { toast } = useToast();
 
-  const acceptedTypes = ['.pdf', '.docx', '.doc', '.txt', '.pptx', '.ppt'];
+  const acceptedTypes = ['.pdf', '.docx', '.doc', '.txt', '.csv', '.pptx', '.ppt'];
   const maxFileSize = 50 * 1024 * 1024; // 50MB
 
-  // Mock page data (in real implementation, this would come from document parsing)
-  const totalPages = 12;
   const pages = Array.from({ length: totalPages }, (_, i) => i + 1);
 
   const validateFile = (file: File) => {
@@ -38,7 +75,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
     if (!acceptedTypes.includes(extension)) {
       toast({
         title: "Invalid file type",
-        description: "Please upload PDF, Word, TXT, or PowerPoint files only.",
+        description: "Please upload PDF, Word, TXT, CSV, or PowerPoint files only.",
         variant: "destructive",
       });
       return false;
@@ -54,21 +91,126 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
     return true;
   };
 
+  const loadPageCount = async (file: File) => {
+    setIsCountingPages(true);
+    setTotalPages(0);
+    try {
+      setTotalPages(await getPageCount(file));
+    } catch (error) {
+      console.error('Page count error:', error);
+      setTotalPages(1);
+      toast({
+        title: "Could not read pages",
+        description: `${file.name} will be treated as a single page.`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsCountingPages(false);
+    }
+  };
+
+  const loadOutline = async (file: File) => {
+    setPdfDocument(null);
+    setOutlineDepth(0);
+    setBookmarkDepth(1);
+    if (!file.name.toLowerCase().endsWith('.pdf')) return;
+    try {
+      const doc = await loadPdf(await file.arrayBuffer());
+      setPdfDocument(doc);
+      setOutlineDepth(getOutlineDepth(readOutline(doc)));
+    } catch (error) {
+      console.error('Outline error:', error);
+    }
+  };
+
+  const loadDocxSections = async (data: ArrayBuffer | null, mode: DocxSplitMode) => {
+    setDocxSections([]);
+    if (!data) return;
+    try {
+      setDocxSections(await getDocxSections(data, mode));
+    } catch (error) {
+      console.error('Document structure error:', error);
+    }
+  };
+
+  const loadStructure = async (file: File) => {
+    setDocxData(null);
+    setDocxSections([]);
+    setPptxSections([]);
+    setCsvColumns([]);
+    setCsvGroupColumn(-1);
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (extension === 'docx') {
+      const data = await file.arrayBuffer();
+      setDocxData(data);
+      await loadDocxSections(data, docxSplitMode);
+    } else if (extension === 'pptx') {
+      try {
+        setPptxSections(await getPptxSections(await file.arrayBuffer()));
+      } catch (error) {
+        console.error('Presentation sections error:', error);
+      }
+    } else if (extension === 'csv') {
+      try {
+        setCsvColumns(getCsvColumns(await file.text()));
+      } catch (error) {
+        console.error('CSV header error:', error);
+      }
+    }
+  };
+
+  const hasStructure = !!docxData || pptxSections.length > 0;
+  const isTextFile = !!uploadedFile?.name.toLowerCase().endsWith('.txt');
+  const isCsvFile = !!uploadedFile?.name.toLowerCase().endsWith('.csv');
+
+  const getSections = () => (pdfDocument && outlineDepth > 0 ? getBookmarkSections(pdfDocument, bookmarkDepth) : []);
+
+  // Patterns the user has not changed follow the split method
+  const defaultPatterns = ['page_{n}', '{title}', '{bookmark}', 'part_{match}', 'chunk_{n:03}', 'rows_{start}-{end}', '{group}'];
+
+  const selectSplitMethod = (method: typeof splitMethod) => {
+    setSplitMethod(method);
+    // Chapters are best named after their bookmarks or headings, matched parts after their match
+    if (defaultPatterns.includes(namingPattern)) {
+      setNamingPattern(
+        method === 'bookmarks' || method === 'structure' ? '{bookmark}'
+          : method === 'pattern' ? 'part_{match}'
+          : method === 'chunks' ? 'chunk_{n:03}'
+          : method === 'csv' ? (csvGroupColumn >= 0 ? '{group}' : 'rows_{start}-{end}')
+          : 'page_{n}'
+      );
+    }
+  };
+
+  // Whether a split method works for this kind of file, matching the method cards below
+  const fitsFile = (method: typeof splitMethod, file: File) => {
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (['bookmarks', 'size', 'blank', 'pattern'].includes(method)) return extension === 'pdf';
+    if (method === 'structure') return extension === 'docx' || extension === 'pptx';
+    if (method === 'chunks') return extension === 'txt';
+    if (method === 'csv') return extension === 'csv';
+    return true;
+  };
+
   const handleFileSelect = useCallback((files: FileList | null) => {
     if (!files || files.length === 0) return;
     
     const file = files[0];
     if (validateFile(file)) {
       setUploadedFile(file);
+      if (!fitsFile(splitMethod, file)) selectSplitMethod('pages');
       setSelectedPages([]);
       setSplitFiles([]);
       setProgress(0);
+      loadPageCount(file);
+      loadOutline(file);
+      loadStructure(file);
       toast({
         title: "File uploaded successfully",
         description: `${file.name} is ready for splitting.`,
       });
     }
-  }, [toast]);
+  }, [toast, splitMethod, namingPattern]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -94,50 +236,233 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
     );
   };
 
-  const parsePageRanges = (ranges: string): number[] => {
-    const pages: number[] = [];
-    const parts = ranges.split(',').map(part => part.trim());
-    
-    for (const part of parts) {
-      if (part.includes('-')) {
-        const [start, end] = part.split('-').map(n => parseInt(n.trim()));
-        if (!isNaN(start) && !isNaN(end) && start <= end) {
-          for (let i = start; i <= Math.min(end, totalPages); i++) {
-            if (!pages.includes(i)) pages.push(i);
-          }
-        }
-      } else {
-        const page = parseInt(part);
-        if (!isNaN(page) && page >= 1 && page <= totalPages && !pages.includes(page)) {
-          pages.push(page);
+  // Parts that follow directly from the options; the size, blank page and
+  // pattern methods have to inspect the document first and return null here
+  const getPlannedParts = (): SplitPartInfo[] | null => {
+    switch (splitMethod) {
+      case 'pages':
+        return selectedPages.map(page => ({ pages: [page] }));
+      case 'ranges':
+        return parsePageRanges(pageRanges, totalPages).groups.map(group => ({ pages: group }));
+      case 'count': {
+        // Split by page count (every N pages)
+        const parts: SplitPartInfo[] = [];
+        for (let i = 1; i <= totalPages; i += pageCount) {
+          parts.push({ pages: pages.slice(i - 1, i - 1 + pageCount) });
         }
+        return parts;
       }
+      case 'bookmarks':
+        return getSections().map(section => ({ pages: section.pages, bookmark: section.title }));
+      case 'structure':
+        return pptxSections.length > 0
+          ? pptxSections.map(section => ({ pages: section.slides, bookmark: section.title }))
+          : docxSections.map((section, index) => ({ pages: [index + 1], bookmark: section.title }));
+      default:
+        return null;
     }
-    
-    return pages.sort((a, b) => a - b);
   };
 
+  const plannedParts = uploadedFile ? getPlannedParts() : null;
+  const rangeErrors = splitMethod === 'ranges' && pageRanges.trim() ? parsePageRanges(pageRanges, totalPages).errors : [];
+  // A single JSONL file of chunks is named after the original file
+  const usesNamingPattern = !(splitMethod === 'chunks' && chunkOutput === 'jsonl');
+  const namingErrors = usesNamingPattern ? validateNamingPattern(namingPattern) : [];
+  const namePreview = uploadedFile && namingErrors.length === 0
+    ? fillNamingPattern(namingPattern, plannedParts ?? [{ pages, bookmark: 'Bookmark', match: 'match' }], {
+        basename: uploadedFile.name.split('.').slice(0, -1).join('.'),
+      })
+    : [];
+  // What the numbers listed for a split file count
+  const getPartLabel = (count: number) =>
+    splitMethod === 'chunks' ? (count === 1 ? 'chunk' : 'chunks')
+      : splitMethod === 'csv' ? (count === 1 ? 'row' : 'rows')
+      : splitMethod === 'structure' && docxData ? 'part'
+      : count === 1 ? 'page' : 'pages';
+  const repeatedNames = namePreview.length - new Set(namePreview.map(name => name.toLowerCase())).size;
+  const outputExtension = uploadedFile?.name.split('.').pop()?.toLowerCase() || 'pdf';
+
   const handleSplit = async () => {
     if (!uploadedFile) return;
 
-    let pagesToSplit: number[] = [];
-    
-    switch (splitMethod) {
-      case 'pages':
-        pagesToSplit = selectedPages;
-        break;
-      case 'ranges':
-        pagesToSplit = parsePageRanges(pageRanges);
-        break;
-      case 'count':
-        // Split by page count (every N pages)
-        for (let i = 1; i <= totalPages; i += pageCount) {
-          pagesToSplit.push(i);
+    if (namingErrors.length > 0) {
+      toast({
+        title: "Invalid naming pattern",
+        description: namingErrors.join('. '),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (splitMethod === 'ranges' && rangeErrors.length > 0) {
+      toast({
+        title: "Invalid page ranges",
+        description: rangeErrors.join('. '),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (splitMethod === 'chunks' && !(chunkSize >= 1 && chunkOverlap >= 0 && chunkOverlap < chunkSize)) {
+      toast({
+        title: "Invalid chunk settings",
+        description: "The chunk size has to be at least 1 and the overlap smaller than the chunk size.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (splitMethod === 'csv' && csvGroupColumn < 0 && csvRowsPerPart < 1) {
+      toast({
+        title: "Invalid row count",
+        description: "Each file needs at least one row.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (splitMethod === 'bookmarks' && (!pdfDocument || outlineDepth === 0)) {
+      toast({
+        title: "No bookmarks found",
+        description: `${uploadedFile.name} has no bookmarks to split at.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    let splitParts: SplitPartInfo[] = plannedParts ?? [];
+
+    if (splitMethod === 'size') {
+      if (!pdfDocument) {
+        toast({
+          title: "PDF not loaded",
+          description: `${uploadedFile.name} could not be read as a PDF, so it cannot be split by size.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setIsProcessing(true);
+      setProgress(0);
+      try {
+        const maxBytes = maxPartSize * 1024 * 1024;
+        const parts = await getSizeLimitedParts(pdfDocument, maxBytes);
+        splitParts = parts.map(part => ({ pages: part.pages }));
+        const oversized = parts.filter(part => part.size > maxBytes);
+        if (oversized.length > 0) {
+          toast({
+            title: "Some pages exceed the size limit",
+            description: `Page${oversized.length > 1 ? 's' : ''} ${oversized.map(part => part.pages[0]).join(', ')} ${oversized.length > 1 ? 'are' : 'is'} larger than ${maxPartSize} MB on ${oversized.length > 1 ? 'their' : 'its'} own and will be saved as a separate file.`,
+            variant: "destructive",
+          });
+        }
+      } catch (error) {
+        console.error('Size split error:', error);
+        setIsProcessing(false);
+        toast({
+          title: "Split Failed",
+          description: error instanceof Error ? error.message : "Could not measure the document's pages.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (splitMethod === 'blank') {
+      if (!pdfDocument) {
+        toast({
+          title: "PDF not loaded",
+          description: `${uploadedFile.name} could not be read as a PDF, so its blank pages cannot be found.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      setIsProcessing(true);
+      setProgress(0);
+      try {
+        const blankPages = await findBlankPages(pdfDocument, { maxCoverage: blankThreshold / 100 });
+        if (blankPages.length === 0) {
+          setIsProcessing(false);
+          toast({
+            title: "No blank pages found",
+            description: "Try a higher coverage threshold if the separator sheets are scanned with specks or shadows.",
+            variant: "destructive",
+          });
+          return;
         }
-        break;
+        splitParts = splitAtBlankPages(getPages(pdfDocument).length, blankPages, removeBlankPages).map(group => ({ pages: group }));
+        toast({
+          title: "Blank pages found",
+          description: `Page${blankPages.length > 1 ? 's' : ''} ${formatPageList(blankPages)} ${blankPages.length > 1 ? 'look' : 'looks'} blank.`,
+        });
+      } catch (error) {
+        console.error('Blank page error:', error);
+        setIsProcessing(false);
+        toast({
+          title: "Split Failed",
+          description: error instanceof Error ? error.message : "Could not inspect the document's pages.",
+          variant: "destructive",
+        });
+        return;
+      }
     }
 
-    if (pagesToSplit.length === 0) {
+    if (splitMethod === 'pattern') {
+      if (!pdfDocument) {
+        toast({
+          title: "PDF not loaded",
+          description: `${uploadedFile.name} could not be read as a PDF, so its text cannot be searched.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      if (!textPattern.trim()) {
+        toast({
+          title: "No pattern entered",
+          description: "Enter the text that starts each part, e.g. Invoice #(\\d+).",
+          variant: "destructive",
+        });
+        return;
+      }
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(textPattern, ignorePatternCase ? 'im' : 'm');
+      } catch (error) {
+        toast({
+          title: "Invalid pattern",
+          description: error instanceof Error ? error.message : "The text pattern is not a valid regular expression.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setIsProcessing(true);
+      setProgress(0);
+      try {
+        const sections = await getPatternSections(pdfDocument, pattern);
+        if (sections.every(section => !section.match)) {
+          setIsProcessing(false);
+          toast({
+            title: "No matches found",
+            description: `No page contains text matching ${textPattern}.`,
+            variant: "destructive",
+          });
+          return;
+        }
+        splitParts = sections;
+      } catch (error) {
+        console.error('Pattern split error:', error);
+        setIsProcessing(false);
+        toast({
+          title: "Split Failed",
+          description: error instanceof Error ? error.message : "Could not read the document's text.",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    // Chunks and CSV parts are only known once the text has been read
+    if (splitMethod !== 'chunks' && splitMethod !== 'csv' && splitParts.length === 0) {
+      setIsProcessing(false);
       toast({
         title: "No pages selected",
         description: "Please select pages to split.",
@@ -152,7 +477,15 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
 
     try {
       // Create split files using actual file content
-      const files = await createSplitDocuments(uploadedFile, pagesToSplit, namingPattern);
+      const files = await createSplitDocuments(uploadedFile, splitParts, namingPattern, {
+        docxSplitMode: splitMethod === 'structure' ? docxSplitMode : 'page',
+        textChunks: splitMethod === 'chunks'
+          ? { unit: chunkUnit, size: chunkSize, overlap: chunkOverlap, output: chunkOutput }
+          : undefined,
+        csv: splitMethod === 'csv'
+          ? { rowsPerPart: csvRowsPerPart, groupColumn: csvGroupColumn >= 0 ? csvGroupColumn : undefined }
+          : undefined,
+      });
       
       // Simulate progress for UI feedback
       const interval = setInterval(() => {
@@ -163,7 +496,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
             setIsProcessing(false);
             toast({
               title: "Split Complete!",
-              description: `Document split into ${pagesToSplit.length} files.`,
+              description: `Document split into ${files.length} ${files.length === 1 ? 'file' : 'files'}.`,
             });
             return 100;
           }
@@ -175,7 +508,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
       setIsProcessing(false);
       toast({
         title: "Split Failed",
-        description: "An error occurred while splitting the document.",
+        description: error instanceof Error ? error.message : "An error occurred while splitting the document.",
         variant: "destructive",
       });
     }
@@ -240,7 +573,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
                 <div>
                   <h3 className="text-lg font-semibold mb-2">Drop your file here, or click to browse</h3>
                   <p className="text-muted-foreground">
-                    Single PDF, Word, TXT, or PowerPoint file (max 50MB)
+                    Single PDF, Word, TXT, CSV, or PowerPoint file (max 50MB)
                   </p>
                 </div>
                 <Button
@@ -254,7 +587,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
               <input
                 id="split-file-input"
                 type="file"
-                accept=".pdf,.docx,.doc,.txt,.pptx,.ppt"
+                accept=".pdf,.docx,.doc,.txt,.csv,.pptx,.ppt"
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                 onChange={(e) => handleFileSelect(e.target.files)}
               />
@@ -275,7 +608,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
                 <div>
                   <p className="font-medium">{uploadedFile.name}</p>
                   <p className="text-sm text-muted-foreground">
-                    {formatFileSize(uploadedFile.size)} • {totalPages} pages
+                    {formatFileSize(uploadedFile.size)} • {isCountingPages ? 'Counting pages...' : `${totalPages} pages`}
                   </p>
                 </div>
               </div>
@@ -283,6 +616,12 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
                 variant="outline"
                 onClick={() => {
                   setUploadedFile(null);
+                  setPdfDocument(null);
+                  setOutlineDepth(0);
+                  setDocxData(null);
+                  setDocxSections([]);
+                  setPptxSections([]);
+                  selectSplitMethod('pages');
                   setSplitFiles([]);
                   setProgress(0);
                 }}
@@ -310,25 +649,88 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <Card 
                   className={`p-4 cursor-pointer transition-all ${splitMethod === 'pages' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
-                  onClick={() => setSplitMethod('pages')}
+                  onClick={() => selectSplitMethod('pages')}
                 >
                   <h4 className="font-medium mb-2">Select Pages</h4>
                   <p className="text-sm text-muted-foreground">Choose specific pages to extract</p>
                 </Card>
                 <Card 
                   className={`p-4 cursor-pointer transition-all ${splitMethod === 'ranges' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
-                  onClick={() => setSplitMethod('ranges')}
+                  onClick={() => selectSplitMethod('ranges')}
                 >
                   <h4 className="font-medium mb-2">Page Ranges</h4>
                   <p className="text-sm text-muted-foreground">Use ranges like 1-5, 8, 11-13</p>
                 </Card>
                 <Card 
                   className={`p-4 cursor-pointer transition-all ${splitMethod === 'count' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
-                  onClick={() => setSplitMethod('count')}
+                  onClick={() => selectSplitMethod('count')}
                 >
                   <h4 className="font-medium mb-2">Every N Pages</h4>
                   <p className="text-sm text-muted-foreground">Split by page count intervals</p>
                 </Card>
+                <Card 
+                  className={`p-4 transition-all ${outlineDepth === 0 ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${splitMethod === 'bookmarks' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
+                  onClick={() => outlineDepth > 0 && selectSplitMethod('bookmarks')}
+                >
+                  <h4 className="font-medium mb-2">By Bookmarks</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {outlineDepth > 0 ? 'One file per chapter of the outline' : 'Needs a PDF with bookmarks'}
+                  </p>
+                </Card>
+                <Card 
+                  className={`p-4 transition-all ${!pdfDocument ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${splitMethod === 'size' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
+                  onClick={() => pdfDocument && selectSplitMethod('size')}
+                >
+                  <h4 className="font-medium mb-2">Maximum File Size</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {pdfDocument ? 'Keep every part under a size limit' : 'PDF files only'}
+                  </p>
+                </Card>
+                <Card 
+                  className={`p-4 transition-all ${!pdfDocument ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${splitMethod === 'blank' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
+                  onClick={() => pdfDocument && selectSplitMethod('blank')}
+                >
+                  <h4 className="font-medium mb-2">Blank Pages</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {pdfDocument ? 'Cut at blank separator sheets' : 'PDF files only'}
+                  </p>
+                </Card>
+                <Card 
+                  className={`p-4 transition-all ${!pdfDocument ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${splitMethod === 'pattern' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
+                  onClick={() => pdfDocument && selectSplitMethod('pattern')}
+                >
+                  <h4 className="font-medium mb-2">Text Pattern</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {pdfDocument ? 'Start a new file wherever a page matches' : 'PDF files only'}
+                  </p>
+                </Card>
+                <Card 
+                  className={`p-4 transition-all ${!hasStructure ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${splitMethod === 'structure' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
+                  onClick={() => hasStructure && selectSplitMethod('structure')}
+                >
+                  <h4 className="font-medium mb-2">Document Structure</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {docxData ? 'One file per chapter or section' : pptxSections.length > 0 ? 'One deck per presentation section' : 'Word documents or presentations with sections'}
+                  </p>
+                </Card>
+                <Card 
+                  className={`p-4 transition-all ${!isTextFile ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${splitMethod === 'chunks' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
+                  onClick={() => isTextFile && selectSplitMethod('chunks')}
+                >
+                  <h4 className="font-medium mb-2">Text Chunks</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {isTextFile ? 'Overlapping chunks for search and retrieval' : 'TXT files only'}
+                  </p>
+                </Card>
+                <Card 
+                  className={`p-4 transition-all ${!isCsvFile ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'} ${splitMethod === 'csv' ? 'border-green-500 bg-green-500/5' : 'hover:bg-muted/20'}`}
+                  onClick={() => isCsvFile && selectSplitMethod('csv')}
+                >
+                  <h4 className="font-medium mb-2">CSV Rows</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {isCsvFile ? 'By row count or column value, header in every file' : 'CSV files only'}
+                  </p>
+                </Card>
               </div>
             </div>
 
@@ -367,8 +769,15 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
                   onChange={(e) => setPageRanges(e.target.value)}
                   placeholder="e.g., 1-5, 8, 11-13"
                 />
+                {rangeErrors.length > 0 && (
+                  <div className="text-xs text-red-500 space-y-1">
+                    {rangeErrors.map(error => <p key={error}>{error}</p>)}
+                  </div>
+                )}
                 <p className="text-xs text-muted-foreground">
-                  Use commas to separate ranges. Example: 1-3, 5, 7-9
+                  Each comma-separated range becomes one file, with its pages in the order written. Besides 1-3 and 5 you can use
+                  z or last for the last page (z-1 for the one before), open ranges like 5- or -3, reversed ranges like 9-7,
+                  odd and even, and !4 or !2-3 to leave pages out.
                 </p>
               </div>
             )}
@@ -380,26 +789,297 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
                   id="page-count"
                   type="number"
                   min="1"
-                  max="10"
+                  max={Math.max(1, totalPages)}
                   value={pageCount}
                   onChange={(e) => setPageCount(parseInt(e.target.value) || 1)}
                 />
               </div>
             )}
 
+            {splitMethod === 'bookmarks' && outlineDepth > 0 && (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="bookmark-depth">Split at bookmark level</Label>
+                  <select
+                    id="bookmark-depth"
+                    value={bookmarkDepth}
+                    onChange={(e) => setBookmarkDepth(parseInt(e.target.value))}
+                    className="text-xs bg-background border border-border rounded px-2 py-1"
+                  >
+                    {Array.from({ length: outlineDepth }, (_, i) => i + 1).map(level => (
+                      <option key={level} value={level}>
+                        {level === 1 ? '1 (top-level bookmarks only)' : `${level} (includes sub-bookmarks)`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="p-3 bg-muted/30 rounded-lg space-y-1 text-sm max-h-64 overflow-y-auto">
+                  {getSections().map((section, index) => (
+                    <div key={index} className="flex justify-between gap-4">
+                      <span className="truncate">{section.title}</span>
+                      <span className="text-muted-foreground whitespace-nowrap">pages {formatPageList(section.pages)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {splitMethod === 'size' && (
+              <div className="space-y-2">
+                <Label htmlFor="max-part-size">Maximum size per file (MB)</Label>
+                <Input
+                  id="max-part-size"
+                  type="number"
+                  min="0.1"
+                  step="0.1"
+                  value={maxPartSize}
+                  onChange={(e) => setMaxPartSize(parseFloat(e.target.value) || 10)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Consecutive pages are packed into each file, measured with the fonts and images they share.
+                </p>
+              </div>
+            )}
+
+            {splitMethod === 'blank' && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="blank-threshold">Maximum ink coverage of a blank scanned page (%)</Label>
+                  <Input
+                    id="blank-threshold"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.1"
+                    value={blankThreshold}
+                    onChange={(e) => setBlankThreshold(Math.max(0, parseFloat(e.target.value) || 0))}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Pages without text or drawings are always blank. Scanned pages count as blank when fewer of their pixels are dark than this.
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="remove-blank-pages"
+                    checked={removeBlankPages}
+                    onChange={(e) => setRemoveBlankPages(e.target.checked)}
+                    className="rounded border-border"
+                  />
+                  <Label htmlFor="remove-blank-pages" className="text-sm">
+                    Leave the separator pages out of the split files
+                  </Label>
+                </div>
+              </div>
+            )}
+
+            {splitMethod === 'pattern' && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="text-pattern">Text pattern (regular expression)</Label>
+                  <Input
+                    id="text-pattern"
+                    value={textPattern}
+                    onChange={(e) => setTextPattern(e.target.value)}
+                    placeholder="e.g., Invoice #(\d+)"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Every page containing a match starts a new file. Use {'{match}'} in the naming pattern for the matched text, or for the first group in parentheses.
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    id="ignore-pattern-case"
+                    checked={ignorePatternCase}
+                    onChange={(e) => setIgnorePatternCase(e.target.checked)}
+                    className="rounded border-border"
+                  />
+                  <Label htmlFor="ignore-pattern-case" className="text-sm">
+                    Ignore upper and lower case
+                  </Label>
+                </div>
+              </div>
+            )}
+
+            {splitMethod === 'structure' && docxData && (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="docx-split-mode">Start a new file at</Label>
+                  <select
+                    id="docx-split-mode"
+                    value={docxSplitMode}
+                    onChange={(e) => {
+                      const mode = e.target.value as DocxSplitMode;
+                      setDocxSplitMode(mode);
+                      loadDocxSections(docxData, mode);
+                    }}
+                    className="text-xs bg-background border border-border rounded px-2 py-1"
+                  >
+                    <option value="heading1">Every Heading 1</option>
+                    <option value="heading2">Every Heading 1 or 2</option>
+                    <option value="section">Every section break</option>
+                    <option value="page">Every page break</option>
+                  </select>
+                </div>
+                <div className="p-3 bg-muted/30 rounded-lg space-y-1 text-sm max-h-64 overflow-y-auto">
+                  {docxSections.map((section, index) => (
+                    <div key={index} className="flex justify-between gap-4">
+                      <span className="truncate">{section.title || 'Untitled'}</span>
+                      <span className="text-muted-foreground whitespace-nowrap">part {index + 1}</span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Every file is a complete Word document with the original styles, numbering, headers and footers.
+                </p>
+              </div>
+            )}
+
+            {splitMethod === 'structure' && pptxSections.length > 0 && (
+              <div className="space-y-4">
+                <div className="p-3 bg-muted/30 rounded-lg space-y-1 text-sm max-h-64 overflow-y-auto">
+                  {pptxSections.map((section, index) => (
+                    <div key={index} className="flex justify-between gap-4">
+                      <span className="truncate">{section.title || 'Untitled'}</span>
+                      <span className="text-muted-foreground whitespace-nowrap">
+                        {section.slides.length === 1 ? 'slide' : 'slides'} {formatPageList(section.slides)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Every deck keeps only the layouts, masters and media its own slides use.
+                </p>
+              </div>
+            )}
+
+            {splitMethod === 'chunks' && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="chunk-size">Chunk size</Label>
+                    <div className="flex items-center space-x-2">
+                      <Input
+                        id="chunk-size"
+                        type="number"
+                        min="1"
+                        value={chunkSize}
+                        onChange={(e) => setChunkSize(parseInt(e.target.value) || 1)}
+                      />
+                      <select
+                        value={chunkUnit}
+                        onChange={(e) => setChunkUnit(e.target.value as TextChunkUnit)}
+                        className="text-xs bg-background border border-border rounded px-2 py-1"
+                      >
+                        <option value="tokens">tokens (approx.)</option>
+                        <option value="characters">characters</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="chunk-overlap">Overlap ({chunkUnit})</Label>
+                    <Input
+                      id="chunk-overlap"
+                      type="number"
+                      min="0"
+                      value={chunkOverlap}
+                      onChange={(e) => setChunkOverlap(Math.max(0, parseInt(e.target.value) || 0))}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="chunk-output">Save as</Label>
+                  <select
+                    id="chunk-output"
+                    value={chunkOutput}
+                    onChange={(e) => setChunkOutput(e.target.value as 'files' | 'jsonl')}
+                    className="text-xs bg-background border border-border rounded px-2 py-1"
+                  >
+                    <option value="files">One text file per chunk</option>
+                    <option value="jsonl">A single JSONL file with chunk offsets</option>
+                  </select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Chunks end at paragraph breaks where possible, then at sentence ends. Tokens are estimated at four characters each.
+                  {chunkOutput === 'files' ? <> In the naming pattern {'{n}'} is the chunk number.</> : <> Each line holds the chunk text with its start and end offsets in the original file.</>}
+                </p>
+              </div>
+            )}
+
+            {splitMethod === 'csv' && (
+              <div className="space-y-4">
+                <div className="flex items-center space-x-2">
+                  <Label htmlFor="csv-group-column">Start a new file</Label>
+                  <select
+                    id="csv-group-column"
+                    value={csvGroupColumn}
+                    onChange={(e) => {
+                      const column = parseInt(e.target.value);
+                      setCsvGroupColumn(column);
+                      if (defaultPatterns.includes(namingPattern)) setNamingPattern(column >= 0 ? '{group}' : 'rows_{start}-{end}');
+                    }}
+                    className="text-xs bg-background border border-border rounded px-2 py-1"
+                  >
+                    <option value={-1}>Every N rows</option>
+                    {csvColumns.map((column, index) => (
+                      <option key={index} value={index}>For each value of {column}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="csv-rows-per-part">
+                    {csvGroupColumn >= 0 ? 'Maximum rows per file (0 for no limit)' : 'Rows per file'}
+                  </Label>
+                  <Input
+                    id="csv-rows-per-part"
+                    type="number"
+                    min={csvGroupColumn >= 0 ? 0 : 1}
+                    value={csvRowsPerPart}
+                    onChange={(e) => setCsvRowsPerPart(Math.max(0, parseInt(e.target.value) || 0))}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Every file starts with the header row. Quoted values spanning several lines stay in one row, and rows are numbered without the header.
+                </p>
+              </div>
+            )}
+
             {/* Naming Pattern */}
-            <div className="space-y-2">
-              <Label htmlFor="naming-pattern">File Naming Pattern</Label>
-              <Input
-                id="naming-pattern"
-                value={namingPattern}
-                onChange={(e) => setNamingPattern(e.target.value)}
-                placeholder="page_{n}"
-              />
-              <p className="text-xs text-muted-foreground">
-                Use {'{n}'} for page numbers. Example: document_page_{'{n}'}
-              </p>
-            </div>
+            {usesNamingPattern && (
+              <div className="space-y-2">
+                <Label htmlFor="naming-pattern">File Naming Pattern</Label>
+                <Input
+                  id="naming-pattern"
+                  value={namingPattern}
+                  onChange={(e) => setNamingPattern(e.target.value)}
+                  placeholder="page_{n}"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Tokens: {'{n}'} or {'{start}'} and {'{end}'} for the first and last page, {'{part}'} and {'{total}'} to count the files, {'{basename}'} for the original name, {'{date}'} or {'{date:DD.MM.YYYY}'}{splitMethod === 'bookmarks' && <>, {'{bookmark}'} for the bookmark title</>}{splitMethod === 'structure' && <>, {'{bookmark}'} for the {docxData ? 'heading' : 'section name'}</>}{splitMethod === 'pattern' && <>, {'{match}'} for the matched text</>}{splitMethod === 'csv' && <>, {'{group}'} for the column value</>}. Add a width to pad numbers, e.g. {'{n:03}'}.
+                </p>
+                {namingErrors.length > 0 ? (
+                  <div className="text-xs text-red-500 space-y-1">
+                    {namingErrors.map(error => <p key={error}>{error}</p>)}
+                  </div>
+                ) : namePreview.length > 0 && (
+                  <div className="p-3 bg-muted/30 rounded-lg space-y-1 text-xs">
+                    <p className="text-muted-foreground">{plannedParts ? 'Files to be created:' : 'For example:'}</p>
+                    {namePreview.slice(0, 5).map((name, index) => (
+                      <p key={index} className="font-mono truncate">{name}.{outputExtension}</p>
+                    ))}
+                    {namePreview.length > 5 && (
+                      <p className="text-muted-foreground">and {namePreview.length - 5} more</p>
+                    )}
+                    {repeatedNames > 0 && (
+                      <p className="text-amber-500">
+                        {repeatedNames} {repeatedNames === 1 ? 'name repeats' : 'names repeat'} and will get a number such as " (2)" added. Include {'{n}'} or {'{part}'} to tell the files apart.
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
 
             {/* Progress */}
             {isProcessing && (
@@ -416,7 +1096,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
             <div className="flex gap-4">
               <Button
                 onClick={handleSplit}
-                disabled={isProcessing}
+                disabled={isProcessing || isCountingPages}
                 className="bg-green-600 hover:bg-green-700"
               >
                 {isProcessing ? "Splitting..." : "Start Split"}
@@ -444,7 +1124,7 @@ export const SplitDocuments = ({ onBack }: SplitDocumentsProps) => {
                     <div>
                       <p className="font-medium text-sm">{file.name}</p>
                       <p className="text-xs text-muted-foreground">
-                        {formatFileSize(file.content.size)}
+                        {formatFileSize(file.content.size)} • {getPartLabel(file.pages.length)} {formatPageList(file.pages)}
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,201 @@
+// RFC 4180 style CSV reading and writing: quoted fields may contain the
+// delimiter, doubled quotes and line breaks.
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+export interface CsvTable {
+  delimiter: string;
+  lineEnding: '\r\n' | '\n';
+  rows: string[][];
+}
+
+// Picks the candidate that occurs most often in the first line, outside quotes
+const detectDelimiter = (text: string) => {
+  const counts = new Map(DELIMITERS.map(delimiter => [delimiter, 0]));
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  return [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): CsvTable => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return {
+    delimiter,
+    lineEnding: /\r\n/.test(input) ? '\r\n' : '\n',
+    // Blank lines carry no data
+    rows: rows.filter(cells => cells.length > 1 || cells[0] !== ''),
+  };
+};
+
+const formatField = (value: string, delimiter: string) =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export const formatCsv = (table: CsvTable): string =>
+  table.rows.map(row => row.map(value => formatField(value, table.delimiter)).join(table.delimiter)).join(table.lineEnding) +
+  table.lineEnding;
+
+export interface CsvMergeOptions {
+  // Name of an extra column recording which file each row came from
+  sourceColumn?: string;
+}
+
+// Stacks several CSV files under one header. Columns are matched by header name
+// (repeated names by occurrence), columns missing from a file are left empty and
+// the delimiter and line endings of the first file are kept.
+export const mergeCsvDocuments = (
+  sources: { name: string; text: string }[],
+  options: CsvMergeOptions = {}
+): string => {
+  if (sources.length === 0) {
+    throw new Error('No CSV files to merge');
+  }
+
+  const tables = sources.map(source => parseCsv(source.text));
+  const columns: string[] = [];
+  const columnIndex = new Map<string, number>();
+  const body: { source: string; values: Map<number, string> }[] = [];
+
+  tables.forEach((table, index) => {
+    const [header = [], ...rows] = table.rows;
+    const seen = new Map<string, number>();
+    const width = rows.reduce((max, row) => Math.max(max, row.length), header.length);
+
+    // Cells past the end of the header get positional names
+    const positions = Array.from({ length: width }, (_, column) => {
+      const name = column < header.length ? header[column].trim() : `column_${column + 1}`;
+      const occurrence = (seen.get(name) ?? 0) + 1;
+      seen.set(name, occurrence);
+      const key = `${name}\u0000${occurrence}`;
+      if (!columnIndex.has(key)) {
+        columnIndex.set(key, columns.length);
+        columns.push(name);
+      }
+      return columnIndex.get(key) ?? 0;
+    });
+
+    for (const row of rows) {
+      body.push({
+        source: sources[index].name,
+        values: new Map(row.map((value, column) => [positions[column], value])),
+      });
+    }
+  });
+
+  let sourceColumn = options.sourceColumn;
+  if (sourceColumn) {
+    // Never shadow a real column of the same name
+    const base = sourceColumn;
+    for (let n = 2; columns.includes(sourceColumn); n++) sourceColumn = `${base}_${n}`;
+  }
+
+  const rows = body.map(({ source, values }) => [
+    ...columns.map((_, column) => values.get(column) ?? ''),
+    ...(sourceColumn ? [source] : []),
+  ]);
+  return formatCsv({
+    delimiter: tables[0].delimiter,
+    lineEnding: tables[0].lineEnding,
+    rows: [[...columns, ...(sourceColumn ? [sourceColumn] : [])], ...rows],
+  });
+};
+
+export interface CsvSplitOptions {
+  // Data rows per part; 0 or unset means no limit when splitting by a column
+  rowsPerPart?: number;
+  // Index of the header column whose distinct values each get their own parts
+  groupColumn?: number;
+}
+
+export interface CsvPart {
+  text: string;
+  // 1-based numbers of the data rows in the part, not counting the header
+  rows: number[];
+  group?: string;
+}
+
+// Column names from the header row, with positional names for blank ones
+export const getCsvColumns = (text: string): string[] =>
+  (parseCsv(text).rows[0] ?? []).map((name, index) => name.trim() || `column_${index + 1}`);
+
+// Cuts a CSV file into parts that each repeat the header row. When grouping,
+// parts follow the order in which the values first appear.
+export const splitCsvDocument = (text: string, options: CsvSplitOptions): CsvPart[] => {
+  const table = parseCsv(text);
+  const [header, ...rows] = table.rows;
+  if (!header || rows.length === 0) {
+    throw new Error('The CSV file has no data rows below its header');
+  }
+
+  const rowsPerPart = options.rowsPerPart ?? 0;
+  const column = options.groupColumn;
+  if (column === undefined && rowsPerPart < 1) {
+    throw new Error('Enter how many rows each part should have');
+  }
+  if (column !== undefined && (column < 0 || column >= header.length)) {
+    throw new Error(`Column ${column + 1} does not exist (the header has ${header.length} columns)`);
+  }
+
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const key = column !== undefined ? (row[column] ?? '').trim() : '';
+    const group = groups.get(key) ?? [];
+    group.push(index + 1);
+    groups.set(key, group);
+  });
+
+  const parts: CsvPart[] = [];
+  for (const [value, numbers] of groups) {
+    const size = rowsPerPart >= 1 ? rowsPerPart : numbers.length;
+    for (let start = 0; start < numbers.length; start += size) {
+      const partRows = numbers.slice(start, start + size);
+      parts.push({
+        text: formatCsv({ ...table, rows: [header, ...partRows.map(number => rows[number - 1])] }),
+        rows: partRows,
+        ...(column !== undefined ? { group: value } : {}),
+      });
+    }
+  }
+  return parts;
+};
@@ -0,0 +1,540 @@
+import {
+  OoxmlPackage,
+  OoxmlRelationship,
+  RELATIONSHIPS_NS,
+  addRelationship,
+  copyPart,
+  getMainPartName,
+  loadPackage,
+  readRelationships,
+  readRelationshipsDocument,
+  readXmlPart,
+  getRelationshipsPartName,
+  removeAppProperties,
+  savePackage,
+  writeXmlPart,
+} from "@/utils/ooxmlPackage";
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const WP_NS = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing';
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+
+// What goes between two merged documents
+export type DocxBreak = 'none' | 'page' | 'section';
+
+// Word-level definitions that are merged into the first document's parts
+// instead of being copied per source
+interface SharedPart {
+  name: string;
+  doc: Document;
+}
+
+interface DocxMergeContext {
+  pkg: OoxmlPackage;
+  mainName: string;
+  document: Document;
+  // Relationship parts edited during the merge, keyed by the part that owns them
+  rels: Map<string, Document>;
+  shared: Map<string, SharedPart>;
+  bookmarkNames: Set<string>;
+  nextBookmarkId: number;
+}
+
+// Identifier renames applied to everything imported from one source document
+interface DocxIdMaps {
+  styles: Map<string, string>;
+  numbering: Map<string, string>;
+  footnotes: Map<string, string>;
+  endnotes: Map<string, string>;
+  bookmarks: Map<string, string>;
+  bookmarkNames: Map<string, string>;
+}
+
+const SHARED_PART_TYPES = ['styles', 'numbering', 'footnotes', 'endnotes'];
+
+const children = (parent: Element, localName?: string) =>
+  Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (!localName || (node as Element).localName === localName)
+  );
+
+const descendants = (root: Element, localName: string) => [
+  ...(root.namespaceURI === W_NS && root.localName === localName ? [root] : []),
+  ...Array.from(root.getElementsByTagNameNS(W_NS, localName)),
+];
+
+const getW = (element: Element, name: string) => element.getAttributeNS(W_NS, name);
+
+const setW = (element: Element, name: string, value: string) => element.setAttributeNS(W_NS, `w:${name}`, value);
+
+const createW = (doc: Document, name: string) => doc.createElementNS(W_NS, `w:${name}`);
+
+const getBody = (doc: Document) => {
+  const body = doc.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) {
+    throw new Error('Missing document body');
+  }
+  return body;
+};
+
+// Compares definitions while ignoring revision ids and the given identifying attributes
+const signature = (element: Element, ignoredChildren: string[] = []) => {
+  const clone = element.cloneNode(true) as Element;
+  for (const name of ['rsid', ...ignoredChildren]) {
+    for (const child of Array.from(clone.getElementsByTagNameNS(W_NS, name))) {
+      child.parentNode?.removeChild(child);
+    }
+  }
+  return new XMLSerializer().serializeToString(clone).replace(/\s+/g, ' ');
+};
+
+const getRelationshipsDocument = async (ctx: DocxMergeContext, partName: string) => {
+  let rels = ctx.rels.get(partName);
+  if (!rels) {
+    rels = await readRelationshipsDocument(ctx.pkg, partName);
+    ctx.rels.set(partName, rels);
+  }
+  return rels;
+};
+
+// Loads the first document's styles/numbering/notes part, or adopts the
+// source's part when the first document does not have one yet
+const getSharedPart = async (
+  ctx: DocxMergeContext,
+  type: string,
+  source?: OoxmlPackage,
+  sourceRel?: OoxmlRelationship
+): Promise<{ part: SharedPart; adopted: boolean } | null> => {
+  const existing = ctx.shared.get(type);
+  if (existing) return { part: existing, adopted: false };
+  if (!source || !sourceRel) return null;
+
+  const name = await copyPart(source, ctx.pkg, sourceRel.target, new Map());
+  addRelationship(await getRelationshipsDocument(ctx, ctx.mainName), ctx.mainName, sourceRel.typeUri, name);
+  const doc = await readXmlPart(ctx.pkg, name);
+  if (!doc) return null;
+  const part = { name, doc };
+  ctx.shared.set(type, part);
+  return { part, adopted: true };
+};
+
+const mergeStyles = async (
+  ctx: DocxMergeContext,
+  source: OoxmlPackage,
+  sourceRels: OoxmlRelationship[],
+  maps: DocxIdMaps,
+  sourceNumber: number
+) => {
+  const rel = sourceRels.find(r => r.type === 'styles');
+  const sourceStyles = rel && (await readXmlPart(source, rel.target));
+  if (!rel || !sourceStyles) return;
+  const shared = await getSharedPart(ctx, 'styles', source, rel);
+  if (!shared || shared.adopted) return;
+
+  const targetRoot = shared.part.doc.documentElement;
+  const targetStyles = new Map(children(targetRoot, 'style').map(style => [getW(style, 'styleId') || '', style]));
+  const defaults = new Map(
+    children(targetRoot, 'style')
+      .filter(style => ['1', 'true', 'on'].includes(getW(style, 'default') || ''))
+      .map(style => [getW(style, 'type'), getW(style, 'styleId') || ''])
+  );
+
+  // Same id and same definition: share it. Same id but a different definition:
+  // import under a new id so the source keeps its look. Default styles always
+  // map onto the first document's default of that type.
+  const imports: Element[] = [];
+  for (const style of children(sourceStyles.documentElement, 'style')) {
+    const id = getW(style, 'styleId') || '';
+    const isDefault = ['1', 'true', 'on'].includes(getW(style, 'default') || '');
+    const defaultId = defaults.get(getW(style, 'type'));
+    if (isDefault && defaultId) {
+      maps.styles.set(id, defaultId);
+      continue;
+    }
+
+    const existing = targetStyles.get(id);
+    if (!existing) {
+      imports.push(style);
+      continue;
+    }
+    if (signature(existing) === signature(style)) continue;
+
+    let newId = `${id}_${sourceNumber}`;
+    for (let n = 2; targetStyles.has(newId); n++) newId = `${id}_${sourceNumber}_${n}`;
+    maps.styles.set(id, newId);
+    targetStyles.set(newId, style);
+    imports.push(style);
+  }
+
+  for (const style of imports) {
+    const imported = shared.part.doc.importNode(style, true) as Element;
+    const id = getW(imported, 'styleId') || '';
+    const newId = maps.styles.get(id);
+    if (newId) {
+      setW(imported, 'styleId', newId);
+      imported.removeAttributeNS(W_NS, 'default');
+      const name = children(imported, 'name')[0];
+      if (name) setW(name, 'val', `${getW(name, 'val') || id} (${sourceNumber})`);
+    }
+    for (const link of ['basedOn', 'next', 'link']) {
+      for (const element of children(imported, link)) {
+        const target = maps.styles.get(getW(element, 'val') || '');
+        if (target) setW(element, 'val', target);
+      }
+    }
+    for (const numId of descendants(imported, 'numId')) {
+      const target = maps.numbering.get(getW(numId, 'val') || '');
+      if (target) setW(numId, 'val', target);
+    }
+    targetRoot.appendChild(imported);
+  }
+};
+
+const mergeNumbering = async (
+  ctx: DocxMergeContext,
+  source: OoxmlPackage,
+  sourceRels: OoxmlRelationship[],
+  maps: DocxIdMaps
+) => {
+  const rel = sourceRels.find(r => r.type === 'numbering');
+  const sourceNumbering = rel && (await readXmlPart(source, rel.target));
+  if (!rel || !sourceNumbering) return;
+  const shared = await getSharedPart(ctx, 'numbering', source, rel);
+  if (!shared || shared.adopted) return;
+
+  const targetRoot = shared.part.doc.documentElement;
+  const targetAbstracts = children(targetRoot, 'abstractNum');
+  const targetNums = children(targetRoot, 'num');
+  const abstractSignatures = new Map(
+    targetAbstracts.map(abstract => [signature(abstract, ['nsid', 'tmpl']).replace(/w:abstractNumId="\d+"/, ''), abstract])
+  );
+  let nextAbstractId = Math.max(-1, ...targetAbstracts.map(a => parseInt(getW(a, 'abstractNumId') || '0', 10))) + 1;
+  let nextNumId = Math.max(0, ...targetNums.map(n => parseInt(getW(n, 'numId') || '0', 10))) + 1;
+
+  // Abstract definitions must all come before the first <w:num>
+  const numAnchor = children(targetRoot, 'numIdMacAtCleanup')[0] ?? null;
+  const abstractAnchor = targetNums[0] ?? numAnchor;
+  const abstractMap = new Map<string, { id: string; shared: Element | null }>();
+  for (const abstract of children(sourceNumbering.documentElement, 'abstractNum')) {
+    const oldId = getW(abstract, 'abstractNumId') || '';
+    const existing = abstractSignatures.get(signature(abstract, ['nsid', 'tmpl']).replace(/w:abstractNumId="\d+"/, ''));
+    if (existing) {
+      abstractMap.set(oldId, { id: getW(existing, 'abstractNumId') || '', shared: existing });
+      continue;
+    }
+    const imported = shared.part.doc.importNode(abstract, true) as Element;
+    const newId = `${nextAbstractId++}`;
+    setW(imported, 'abstractNumId', newId);
+    // A fresh list id keeps Word from joining this list with one from another document
+    for (const nsid of children(imported, 'nsid')) {
+      setW(nsid, 'val', Math.floor(Math.random() * 0xffffffff).toString(16).toUpperCase().padStart(8, '0'));
+    }
+    targetRoot.insertBefore(imported, abstractAnchor);
+    abstractMap.set(oldId, { id: newId, shared: null });
+  }
+
+  for (const num of children(sourceNumbering.documentElement, 'num')) {
+    const imported = shared.part.doc.importNode(num, true) as Element;
+    const newId = `${nextNumId++}`;
+    maps.numbering.set(getW(num, 'numId') || '', newId);
+    setW(imported, 'numId', newId);
+
+    const abstractId = children(imported, 'abstractNumId')[0];
+    const mapped = abstractId && abstractMap.get(getW(abstractId, 'val') || '');
+    if (abstractId && mapped) {
+      setW(abstractId, 'val', mapped.id);
+      // Lists sharing an abstract definition continue each other's numbering,
+      // so restart every level that the source does not override already
+      if (mapped.shared) {
+        const overridden = new Set(children(imported, 'lvlOverride').map(o => getW(o, 'ilvl')));
+        for (const lvl of children(mapped.shared, 'lvl')) {
+          const level = getW(lvl, 'ilvl') || '0';
+          if (overridden.has(level)) continue;
+          const override = createW(shared.part.doc, 'lvlOverride');
+          setW(override, 'ilvl', level);
+          const start = createW(shared.part.doc, 'startOverride');
+          setW(start, 'val', getW(children(lvl, 'start')[0] ?? lvl, 'val') || '1');
+          override.appendChild(start);
+          imported.appendChild(override);
+        }
+      }
+    }
+    targetRoot.insertBefore(imported, numAnchor);
+  }
+};
+
+// Appends footnotes or endnotes; the separator notes of the source are skipped
+const mergeNotes = async (
+  ctx: DocxMergeContext,
+  source: OoxmlPackage,
+  sourceRels: OoxmlRelationship[],
+  type: 'footnotes' | 'endnotes',
+  maps: DocxIdMaps
+) => {
+  const rel = sourceRels.find(r => r.type === type);
+  const sourceNotes = rel && (await readXmlPart(source, rel.target));
+  if (!rel || !sourceNotes) return;
+  const shared = await getSharedPart(ctx, type, source, rel);
+  if (!shared || shared.adopted) return;
+
+  const noteName = type === 'footnotes' ? 'footnote' : 'endnote';
+  const targetRoot = shared.part.doc.documentElement;
+  let nextId = Math.max(0, ...children(targetRoot, noteName).map(note => parseInt(getW(note, 'id') || '0', 10))) + 1;
+
+  const imported: Element[] = [];
+  for (const note of children(sourceNotes.documentElement, noteName)) {
+    const noteType = getW(note, 'type');
+    if (noteType && noteType !== 'normal') continue;
+    const copy = shared.part.doc.importNode(note, true) as Element;
+    const newId = `${nextId++}`;
+    maps[type].set(getW(note, 'id') || '', newId);
+    setW(copy, 'id', newId);
+    targetRoot.appendChild(copy);
+    imported.push(copy);
+  }
+  await importRelationships(ctx, source, rel.target, shared.part.name, imported);
+  for (const note of imported) rewriteReferences(note, maps);
+};
+
+// Copies the parts referenced from imported XML and points its r:id attributes at
+// the copies. Returns the copied headers and footers, which are Word XML as well.
+const importRelationships = async (
+  ctx: DocxMergeContext,
+  source: OoxmlPackage,
+  sourcePart: string,
+  targetPart: string,
+  elements: Element[]
+): Promise<string[]> => {
+  const referencing: Attr[] = [];
+  for (const root of elements) {
+    for (const element of [root, ...Array.from(root.getElementsByTagName('*'))]) {
+      for (const attr of Array.from(element.attributes)) {
+        if (attr.namespaceURI === RELATIONSHIPS_NS) referencing.push(attr);
+      }
+    }
+  }
+  if (referencing.length === 0) return [];
+
+  const copied = new Map<string, string>();
+  const wordParts: string[] = [];
+  const sourceRels = new Map((await readRelationships(source, sourcePart)).map(rel => [rel.id, rel]));
+  const targetRels = await getRelationshipsDocument(ctx, targetPart);
+  const idMap = new Map<string, string>();
+  for (const attr of referencing) {
+    const oldId = attr.value;
+    if (!idMap.has(oldId)) {
+      const rel = sourceRels.get(oldId);
+      if (!rel || (!rel.external && !source.parts.has(rel.target))) continue;
+      const target = rel.external ? rel.target : await copyPart(source, ctx.pkg, rel.target, copied);
+      idMap.set(oldId, addRelationship(targetRels, targetPart, rel.typeUri, target, rel.external));
+      if (rel.type === 'header' || rel.type === 'footer') wordParts.push(target);
+    }
+    attr.value = idMap.get(oldId) ?? oldId;
+  }
+  return wordParts;
+};
+
+// Applies the style, list, note and bookmark renames to imported Word XML.
+// Comments are not merged, so their anchors are dropped.
+const rewriteReferences = (root: Element, maps: DocxIdMaps) => {
+  const remap = (localName: string, attribute: string, map: Map<string, string>) => {
+    if (map.size === 0) return;
+    for (const element of descendants(root, localName)) {
+      const target = map.get(getW(element, attribute) || '');
+      if (target !== undefined) setW(element, attribute, target);
+    }
+  };
+
+  remap('pStyle', 'val', maps.styles);
+  remap('rStyle', 'val', maps.styles);
+  remap('tblStyle', 'val', maps.styles);
+  remap('numId', 'val', maps.numbering);
+  remap('footnoteReference', 'id', maps.footnotes);
+  remap('endnoteReference', 'id', maps.endnotes);
+  remap('bookmarkStart', 'id', maps.bookmarks);
+  remap('bookmarkEnd', 'id', maps.bookmarks);
+  remap('bookmarkStart', 'name', maps.bookmarkNames);
+  remap('hyperlink', 'anchor', maps.bookmarkNames);
+
+  for (const name of ['commentRangeStart', 'commentRangeEnd', 'commentReference']) {
+    for (const element of descendants(root, name)) {
+      element.parentNode?.removeChild(element);
+    }
+  }
+};
+
+// Bookmark ids and names must be unique across the merged body
+const mapBookmarks = (ctx: DocxMergeContext, roots: Element[], maps: DocxIdMaps) => {
+  for (const root of roots) {
+    for (const start of descendants(root, 'bookmarkStart')) {
+      const id = getW(start, 'id') || '';
+      if (!maps.bookmarks.has(id)) maps.bookmarks.set(id, `${ctx.nextBookmarkId++}`);
+
+      const name = getW(start, 'name') || '';
+      let newName = name;
+      for (let n = 2; ctx.bookmarkNames.has(newName); n++) newName = `${name}_${n}`;
+      ctx.bookmarkNames.add(newName);
+      if (newName !== name) maps.bookmarkNames.set(name, newName);
+    }
+  }
+};
+
+const trackBookmarks = (ctx: DocxMergeContext, root: Element) => {
+  for (const start of descendants(root, 'bookmarkStart')) {
+    ctx.bookmarkNames.add(getW(start, 'name') || '');
+    ctx.nextBookmarkId = Math.max(ctx.nextBookmarkId, parseInt(getW(start, 'id') || '0', 10) + 1);
+  }
+};
+
+const createPageBreak = (doc: Document) => {
+  const paragraph = createW(doc, 'p');
+  const run = createW(doc, 'r');
+  const br = createW(doc, 'br');
+  setW(br, 'type', 'page');
+  run.appendChild(br);
+  paragraph.appendChild(run);
+  return paragraph;
+};
+
+// Ends a section by carrying its properties on an otherwise empty paragraph
+const createSectionBreak = (doc: Document, sectPr: Element) => {
+  const paragraph = createW(doc, 'p');
+  const pPr = createW(doc, 'pPr');
+  pPr.appendChild(sectPr);
+  paragraph.appendChild(pPr);
+  return paragraph;
+};
+
+// Declares the source's namespace prefixes on the target root so markup-compatibility
+// attributes such as mc:Ignorable keep resolving
+const mergeNamespaces = (target: Element, source: Element) => {
+  for (const attr of Array.from(source.attributes)) {
+    if (attr.name.startsWith('xmlns:') && !target.hasAttribute(attr.name)) {
+      target.setAttributeNS(XMLNS_NS, attr.name, attr.value);
+    }
+  }
+  const ignorable = source.getAttributeNS(MC_NS, 'Ignorable');
+  if (ignorable) {
+    const prefixes = new Set((target.getAttributeNS(MC_NS, 'Ignorable') || '').split(/\s+/).filter(Boolean));
+    ignorable.split(/\s+/).filter(Boolean).forEach(prefix => prefixes.add(prefix));
+    target.setAttributeNS(MC_NS, 'mc:Ignorable', [...prefixes].join(' '));
+  }
+};
+
+const emptyMaps = (): DocxIdMaps => ({
+  styles: new Map(),
+  numbering: new Map(),
+  footnotes: new Map(),
+  endnotes: new Map(),
+  bookmarks: new Map(),
+  bookmarkNames: new Map(),
+});
+
+// Appends the bodies of several .docx files to the first one. Styles, lists and
+// notes are merged into the first document's parts; images, hyperlinks, headers
+// and other related parts are copied under fresh names and relationship ids.
+export const mergeDocxDocuments = async (
+  sources: (ArrayBuffer | Uint8Array)[],
+  separator: DocxBreak = 'page'
+): Promise<Uint8Array> => {
+  if (sources.length === 0) {
+    throw new Error('No documents to merge');
+  }
+
+  const pkg = await loadPackage(sources[0]);
+  const mainName = await getMainPartName(pkg);
+  const document = await readXmlPart(pkg, mainName);
+  if (!document) {
+    throw new Error(`Missing ${mainName}`);
+  }
+
+  const ctx: DocxMergeContext = {
+    pkg,
+    mainName,
+    document,
+    rels: new Map(),
+    shared: new Map(),
+    bookmarkNames: new Set(),
+    nextBookmarkId: 0,
+  };
+  for (const rel of await readRelationships(pkg, mainName)) {
+    if (SHARED_PART_TYPES.includes(rel.type) && !rel.external) {
+      const doc = await readXmlPart(pkg, rel.target);
+      if (doc) ctx.shared.set(rel.type, { name: rel.target, doc });
+    }
+  }
+
+  const body = getBody(document);
+  trackBookmarks(ctx, body);
+  const lastChild = children(body).pop();
+  let sectPr = lastChild?.localName === 'sectPr' ? lastChild : null;
+  if (sectPr) body.removeChild(sectPr);
+
+  for (let index = 1; index < sources.length; index++) {
+    const source = await loadPackage(sources[index]);
+    const sourceMain = await getMainPartName(source);
+    const sourceDocument = await readXmlPart(source, sourceMain);
+    if (!sourceDocument) {
+      throw new Error(`Missing ${sourceMain}`);
+    }
+    const sourceRels = await readRelationships(source, sourceMain);
+    mergeNamespaces(document.documentElement, sourceDocument.documentElement);
+
+    const maps = emptyMaps();
+    await mergeNumbering(ctx, source, sourceRels, maps);
+    await mergeStyles(ctx, source, sourceRels, maps, index + 1);
+    await mergeNotes(ctx, source, sourceRels, 'footnotes', maps);
+    await mergeNotes(ctx, source, sourceRels, 'endnotes', maps);
+
+    const content = children(getBody(sourceDocument)).map(node => document.importNode(node, true) as Element);
+    const sourceSectPr = content[content.length - 1]?.localName === 'sectPr' ? content.pop() ?? null : null;
+    const imported = sourceSectPr ? [...content, sourceSectPr] : content;
+
+    mapBookmarks(ctx, imported, maps);
+    const wordParts = await importRelationships(ctx, source, sourceMain, mainName, imported);
+    imported.forEach(element => rewriteReferences(element, maps));
+
+    // Headers and footers use the same styles and lists as the body
+    for (const partName of wordParts) {
+      const part = await readXmlPart(pkg, partName);
+      if (!part) continue;
+      rewriteReferences(part.documentElement, maps);
+      writeXmlPart(pkg, partName, part);
+    }
+
+    // The last section's properties stay on the body, so each break gets a copy;
+    // without any, a page break is the closest thing to a new section
+    if (separator === 'page' || (separator === 'section' && !sectPr)) {
+      body.appendChild(createPageBreak(document));
+    } else if (separator === 'section' && sectPr) {
+      body.appendChild(createSectionBreak(document, sectPr.cloneNode(true) as Element));
+    }
+    content.forEach(element => body.appendChild(element));
+
+    // Each document keeps its own page setup when it starts a new section
+    if (separator === 'section' && sourceSectPr) {
+      children(sourceSectPr, 'type').forEach(type => sourceSectPr.removeChild(type));
+      sectPr = sourceSectPr;
+    }
+  }
+
+  if (sectPr) body.appendChild(sectPr);
+
+  // Drawing ids must be unique within the document
+  Array.from(document.getElementsByTagNameNS(WP_NS, 'docPr')).forEach((docPr, index) => {
+    docPr.setAttribute('id', `${index + 1}`);
+  });
+
+  writeXmlPart(pkg, mainName, document);
+  for (const part of ctx.shared.values()) {
+    writeXmlPart(pkg, part.name, part.doc);
+  }
+  for (const [partName, rels] of ctx.rels) {
+    writeXmlPart(pkg, getRelationshipsPartName(partName), rels);
+  }
+
+  // The page and word counts of the first document no longer apply
+  await removeAppProperties(pkg, ['Pages', 'Words', 'Characters', 'CharactersWithSpaces', 'Lines', 'Paragraphs']);
+
+  return savePackage(pkg);
+};
@@ -0,0 +1,311 @@
+import {
+  OoxmlPackage,
+  getMainPartName,
+  loadPackage,
+  parseXml,
+  readRelationships,
+  readXmlPart,
+  removeAppProperties,
+  removeUnreachableParts,
+  removeUnusedRelationships,
+  savePackage,
+  serializeXml,
+  writeXmlPart,
+} from "@/utils/ooxmlPackage";
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Where a document is cut: at explicit page breaks, at section breaks, or before
+// every heading of the given level or above
+export type DocxSplitMode = 'page' | 'section' | 'heading1' | 'heading2';
+
+export interface DocxSection {
+  // Heading text, or the first line of text when the section has no heading
+  title: string;
+}
+
+interface DocxUnits {
+  pkg: OoxmlPackage;
+  mainName: string;
+  document: Document;
+  body: Element;
+  units: Element[][];
+  // Section properties in effect at the end of each block
+  governingSection: Map<Element, Element | null>;
+}
+
+// Document-level content that loses its relationship when the content is left out
+const CONTENT_RELATIONSHIP_TYPES = [
+  'image', 'hyperlink', 'header', 'footer', 'chart', 'oleObject', 'package', 'diagramData', 'diagramLayout',
+  'diagramQuickStyle', 'diagramColors', 'diagramDrawing', 'video', 'audio', 'media', 'control', 'subDocument', 'aFChunk',
+];
+
+// Elements that put something on the page; paragraphs without any are empty
+const CONTENT_ELEMENTS = new Set([
+  't', 'delText', 'drawing', 'pict', 'object', 'tab', 'ptab', 'sym', 'fldSimple', 'instrText',
+  'footnoteReference', 'endnoteReference', 'br', 'cr', 'noBreakHyphen',
+]);
+
+const MAX_TITLE_LENGTH = 80;
+
+const children = (parent: Element, localName?: string) =>
+  Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (!localName || (node as Element).localName === localName)
+  );
+
+const descendants = (root: Element, localName = '*') => Array.from(root.getElementsByTagNameNS(W_NS, localName));
+
+const getW = (element: Element, name: string) => element.getAttributeNS(W_NS, name);
+
+const isOn = (element: Element | undefined) => {
+  const value = element ? getW(element, 'val') : null;
+  return !!element && value !== '0' && value !== 'false' && value !== 'off';
+};
+
+const getSectionProperties = (block: Element) => {
+  const properties = children(block, 'pPr')[0];
+  return properties ? children(properties, 'sectPr')[0] ?? null : null;
+};
+
+const isPageBreak = (element: Element) => {
+  if (element.localName !== 'br' || getW(element, 'type') !== 'page') return false;
+  // Breaks inside text boxes do not break the page
+  for (let node = element.parentNode; node; node = node.parentNode) {
+    if ((node as Element).localName === 'txbxContent') return false;
+  }
+  return true;
+};
+
+const hasContent = (block: Element) =>
+  block.localName !== 'p' || descendants(block).some(element => CONTENT_ELEMENTS.has(element.localName) && !isPageBreak(element));
+
+const getText = (block: Element) =>
+  descendants(block, 't').map(text => text.textContent ?? '').join('').replace(/\s+/g, ' ').trim();
+
+// Outline level (0 for Heading 1) of each paragraph style, following basedOn chains
+const getStyleOutlineLevels = (styles: Document | null): Map<string, number> => {
+  const own = new Map<string, number>();
+  const basedOn = new Map<string, string>();
+  for (const style of styles ? descendants(styles.documentElement, 'style') : []) {
+    if (getW(style, 'type') !== 'paragraph') continue;
+    const id = getW(style, 'styleId') ?? '';
+    const outline = descendants(style, 'outlineLvl')[0];
+    const name = getW(descendants(style, 'name')[0] ?? style, 'val') ?? '';
+    const heading = name.match(/^heading (\d)$/i);
+    if (outline) own.set(id, parseInt(getW(outline, 'val') ?? '9', 10));
+    else if (heading) own.set(id, parseInt(heading[1], 10) - 1);
+    const parent = descendants(style, 'basedOn')[0];
+    if (parent) basedOn.set(id, getW(parent, 'val') ?? '');
+  }
+
+  const levels = new Map<string, number>();
+  for (const id of new Set([...own.keys(), ...basedOn.keys()])) {
+    let current: string | undefined = id;
+    for (let depth = 0; current !== undefined && depth < 16; depth++) {
+      const level = own.get(current);
+      if (level !== undefined) {
+        levels.set(id, level);
+        break;
+      }
+      current = basedOn.get(current);
+    }
+  }
+  return levels;
+};
+
+// The styles part is wherever the main part's relationship points, not necessarily word/styles.xml
+const readHeadingLevels = async (pkg: OoxmlPackage, mainName: string) => {
+  const stylesRel = (await readRelationships(pkg, mainName)).find(rel => rel.type === 'styles' && !rel.external);
+  return getStyleOutlineLevels(stylesRel ? await readXmlPart(pkg, stylesRel.target) : null);
+};
+
+const getOutlineLevel = (paragraph: Element, levels: Map<string, number>) => {
+  const properties = children(paragraph, 'pPr')[0];
+  const outline = properties && children(properties, 'outlineLvl')[0];
+  const style = properties && children(properties, 'pStyle')[0];
+  const level = outline ? parseInt(getW(outline, 'val') ?? '9', 10) : style ? levels.get(getW(style, 'val') ?? '') : undefined;
+  // Level 9 is body text
+  return level !== undefined && level < 9 ? level : null;
+};
+
+const isAncestor = (node: Node, target: Node) => {
+  for (let current: Node | null = target; current; current = current.parentNode) {
+    if (current === node) return true;
+  }
+  return false;
+};
+
+// Splits an element in two around a descendant, which is dropped. Property
+// elements (pPr, rPr, ...) are copied into both halves.
+const splitAround = (element: Element, marker: Element): [Element, Element] => {
+  const before = element.cloneNode(false) as Element;
+  const after = element.cloneNode(false) as Element;
+  let target = before;
+  for (const child of Array.from(element.childNodes)) {
+    if (child === marker) {
+      target = after;
+    } else if (child.nodeType === 1 && isAncestor(child, marker)) {
+      const [first, second] = splitAround(child as Element, marker);
+      before.appendChild(first);
+      after.appendChild(second);
+      target = after;
+    } else if (child.nodeType === 1 && (child as Element).localName.endsWith('Pr')) {
+      before.appendChild(child.cloneNode(true));
+      after.appendChild(child.cloneNode(true));
+    } else {
+      target.appendChild(child.cloneNode(true));
+    }
+  }
+  // The section a paragraph ends belongs to its last half
+  const sectPr = getSectionProperties(before);
+  sectPr?.parentNode?.removeChild(sectPr);
+  return [before, after];
+};
+
+const readDocxUnits = async (data: ArrayBuffer | Uint8Array, mode: DocxSplitMode): Promise<DocxUnits> => {
+  const pkg = await loadPackage(data);
+  const mainName = await getMainPartName(pkg);
+  const document = await readXmlPart(pkg, mainName);
+  const body = document ? descendants(document.documentElement, 'body')[0] : undefined;
+  if (!document || !body) {
+    throw new Error('The document has no body');
+  }
+
+  const levels = mode.startsWith('heading') ? await readHeadingLevels(pkg, mainName) : new Map<string, number>();
+  const maxLevel = mode === 'heading2' ? 1 : 0;
+  const bodySection = children(body, 'sectPr')[0] ?? null;
+  const blocks = children(body).filter(block => block !== bodySection);
+
+  // Type of the section starting after each block that ends one; continuous
+  // sections do not start a new page
+  const nextSectionType = new Map<Element, string | null>();
+  let following = bodySection;
+  for (let i = blocks.length - 1; i >= 0; i--) {
+    const sectPr = getSectionProperties(blocks[i]);
+    if (!sectPr) continue;
+    const type = following ? children(following, 'type')[0] : undefined;
+    nextSectionType.set(blocks[i], type ? getW(type, 'val') : null);
+    following = sectPr;
+  }
+
+  const units: Element[][] = [];
+  let current: Element[] = [];
+  // Leading empty paragraphs stay with the content that follows them
+  const cut = () => {
+    if (!current.some(hasContent)) return;
+    units.push(current);
+    current = [];
+  };
+
+  for (const block of blocks) {
+    if (block.localName !== 'p') {
+      current.push(block);
+      continue;
+    }
+
+    if (mode.startsWith('heading')) {
+      const level = getOutlineLevel(block, levels);
+      if (level !== null && level <= maxLevel) cut();
+    }
+
+    let paragraph = block;
+    if (mode === 'page') {
+      const properties = children(block, 'pPr')[0];
+      if (properties && isOn(children(properties, 'pageBreakBefore')[0])) cut();
+      for (let pageBreak = descendants(paragraph, 'br').find(isPageBreak); pageBreak; pageBreak = descendants(paragraph, 'br').find(isPageBreak)) {
+        const [before, after] = splitAround(paragraph, pageBreak);
+        if (hasContent(before)) current.push(before);
+        cut();
+        paragraph = after;
+      }
+      if (paragraph === block || hasContent(paragraph) || getSectionProperties(paragraph)) current.push(paragraph);
+    } else {
+      current.push(paragraph);
+    }
+
+    if (getSectionProperties(block)) {
+      if (mode === 'section' || (mode === 'page' && nextSectionType.get(block) !== 'continuous')) cut();
+    }
+  }
+  if (current.length > 0) {
+    if (current.some(hasContent) || units.length === 0) units.push(current);
+    else units[units.length - 1].push(...current);
+  }
+
+  const governingSection = new Map<Element, Element | null>();
+  let section = bodySection;
+  for (const block of units.flat().reverse()) {
+    section = getSectionProperties(block) ?? section;
+    governingSection.set(block, section);
+  }
+  return { pkg, mainName, document, body, units, governingSection };
+};
+
+const getUnitTitle = (blocks: Element[]) => {
+  const text = blocks.map(getText).find(Boolean) ?? '';
+  return text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : text;
+};
+
+// The parts a document falls into when cut with the given mode
+export const getDocxSections = async (data: ArrayBuffer | Uint8Array, mode: DocxSplitMode): Promise<DocxSection[]> => {
+  const { units } = await readDocxUnits(data, mode);
+  return units.map(blocks => ({ title: getUnitTitle(blocks) }));
+};
+
+// Bookmarks and comment ranges cut off by the split lose their other end
+const removeUnpairedMarkers = (body: Element) => {
+  for (const [start, end] of [['bookmarkStart', 'bookmarkEnd'], ['commentRangeStart', 'commentRangeEnd']]) {
+    const starts = descendants(body, start);
+    const ends = descendants(body, end);
+    const startIds = new Set(starts.map(element => getW(element, 'id')));
+    const endIds = new Set(ends.map(element => getW(element, 'id')));
+    for (const element of starts) {
+      if (!endIds.has(getW(element, 'id'))) element.parentNode?.removeChild(element);
+    }
+    for (const element of ends) {
+      if (!startIds.has(getW(element, 'id'))) element.parentNode?.removeChild(element);
+    }
+  }
+};
+
+// Builds one complete DOCX per group of 1-based section numbers (see getDocxSections).
+// Each part keeps the styles, numbering, headers and footers of the original;
+// images and other parts used only by the left-out content are dropped.
+export const splitDocxDocument = async (
+  data: ArrayBuffer | Uint8Array,
+  mode: DocxSplitMode,
+  groups: number[][]
+): Promise<Uint8Array[]> => {
+  const { pkg, mainName, document, body, units, governingSection } = await readDocxUnits(data, mode);
+  const unitName = mode === 'page' ? 'pages separated by page breaks' : mode === 'section' ? 'sections' : 'headings';
+  const outputs: Uint8Array[] = [];
+
+  for (const group of groups) {
+    const blocks = group.flatMap(number => {
+      if (!units[number - 1]) {
+        throw new Error(`Part ${number} does not exist: the document has ${units.length} ${unitName}`);
+      }
+      return units[number - 1];
+    });
+
+    while (body.firstChild) body.removeChild(body.firstChild);
+    const copies = blocks.map(block => block.cloneNode(true) as Element);
+    copies.forEach(copy => body.appendChild(copy));
+
+    // The part ends with the section its last block belongs to
+    const last = copies[copies.length - 1];
+    const section = last ? governingSection.get(blocks[blocks.length - 1]) : null;
+    const ownSection = last ? getSectionProperties(last) : null;
+    ownSection?.parentNode?.removeChild(ownSection);
+    if (section) body.appendChild(section.cloneNode(true));
+    removeUnpairedMarkers(body);
+
+    const part: OoxmlPackage = { parts: new Map(pkg.parts), contentTypes: parseXml(serializeXml(pkg.contentTypes)) };
+    writeXmlPart(part, mainName, document);
+    await removeUnusedRelationships(part, mainName, document, CONTENT_RELATIONSHIP_TYPES);
+    await removeUnreachableParts(part);
+    await removeAppProperties(part, ['Pages', 'Words', 'Characters', 'CharactersWithSpaces', 'Lines', 'Paragraphs']);
+    outputs.push(await savePackage(part));
+  }
+  return outputs;
+};
@@ -1,3 +1,16 @@
+import { PdfDocument, getDocumentTitle, loadPdf } from "@/utils/pdfReader";
+import { PdfSeparatorMode, mergePdfDocuments } from "@/utils/pdfMerge";
+import { extractPdfPages } from "@/utils/pdfSplit";
+import { DocxSplitMode, splitDocxDocument } from "@/utils/docxSplit";
+import { splitPptxDocument } from "@/utils/pptxSplit";
+import { DocxBreak, mergeDocxDocuments } from "@/utils/docxMerge";
+import { PptxMasterMode, mergePptxDocuments } from "@/utils/pptxMerge";
+import { canConvertToPdf, convertToPdf } from "@/utils/pdfConvert";
+import { CsvSplitOptions, mergeCsvDocuments, splitCsvDocument } from "@/utils/csvUtils";
+import { SplitPartInfo, fillNamingPattern, makeUniqueNames } from "@/utils/splitNaming";
+import { TextChunkOptions, chunkText, formatChunksAsJsonl } from "@/utils/textChunks";
+import { TEXT_LINES_PER_PAGE } from "@/utils/pageCount";
+
 export const downloadFile = (blob: Blob, filename: string, mimeType: string) => {
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
@@ -33,8 +46,37 @@ export const createProcessedDocument = async (originalFile: File, newFilename: s
   return new Blob([arrayBuffer], { type: originalFile.type });
 };
 
+export interface MergeOptions {
+  // Per-file 1-based page numbers in output order (PDF only); null keeps every page
+  pageSelections?: (number[] | null)[];
+  // Bookmark per source file (PDF only), titled from its file name or its /Title entry
+  bookmarks?: 'none' | 'filename' | 'documentTitle';
+  // Alternate pages between the files instead of appending them (PDF only)
+  interleave?: boolean;
+  // Per-file flag to take its pages last to first (PDF only)
+  reversedFiles?: boolean[];
+  // Generated cover page title; no cover page when empty (PDF only)
+  coverTitle?: string;
+  // Blank or titled pages between the files (PDF only)
+  separatorPages?: PdfSeparatorMode;
+  // Contents page linking to the first page of each file (PDF only)
+  tableOfContents?: boolean;
+  // What separates consecutive Word documents (DOCX only)
+  documentBreak?: DocxBreak;
+  // Keep every deck's slide masters or re-theme onto the first deck's (PPTX only)
+  slideMasters?: PptxMasterMode;
+  // Adds a source_file column naming the file each row came from (CSV only)
+  sourceFileColumn?: boolean;
+  // Convert every input to PDF first so files of different formats can be merged
+  normalizeToPdf?: boolean;
+  // Progress of each file's conversion when normalizing to PDF
+  onConversionStatus?: (file: File, status: ConversionStatus, error?: string) => void;
+}
+
+export type ConversionStatus = 'converting' | 'converted' | 'failed';
+
 // Create merged document from multiple files
-export const createMergedDocument = async (files: File[], outputFilename: string): Promise<Blob> => {
+export const createMergedDocument = async (files: File[], outputFilename: string, options: MergeOptions = {}): Promise<Blob> => {
   if (files.length === 0) {
     throw new Error('No files to merge');
   }
@@ -44,69 +86,64 @@ export const createMergedDocument = async (files: File[], outputFilename: string
   const firstFile = files[0];
   const fileExtension = firstFile.name.split('.').pop()?.toLowerCase();
   
-  // For PDF files - create a simple merged PDF structure
-  if (fileExtension === 'pdf') {
-    try {
-      // Read all PDF files as text (basic approach)
-      const pdfContents = await Promise.all(
-        files.map(async (file, index) => {
-          const arrayBuffer = await file.arrayBuffer();
-          const uint8Array = new Uint8Array(arrayBuffer);
-          
-          // Extract basic PDF structure and content
-          const decoder = new TextDecoder('latin1');
-          const pdfString = decoder.decode(uint8Array);
-          
-          // Find and extract text content from PDF (simplified)
-          const textMatches = pdfString.match(/\(([^)]+)\)/g);
-          const extractedText = textMatches ? textMatches.map(match => match.slice(1, -1)).join(' ') : `Content from ${file.name}`;
-          
-          return {
-            filename: file.name,
-            content: extractedText || `Document ${index + 1} content`,
-            originalSize: file.size
-          };
-        })
-      );
-      
-      // Create a new PDF-like structure with all content
-      const mergedContent = pdfContents.map((pdf, index) => 
-        `--- Document ${index + 1}: ${pdf.filename} ---\n${pdf.content}\n\n`
-      ).join('');
-      
-      // Create a basic PDF structure with the merged content
-      const pdfHeader = '%PDF-1.4\n';
-      const pdfContent = `1 0 obj\n<< /Type /Catalog /Pages 2 0 R >>\nendobj\n2 0 obj\n<< /Type /Pages /Kids [3 0 R] /Count 1 >>\nendobj\n3 0 obj\n<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R >>\nendobj\n4 0 obj\n<< /Length ${mergedContent.length} >>\nstream\nBT\n/F1 12 Tf\n50 750 Td\n(${mergedContent.replace(/\n/g, ') Tj T* (')}) Tj\nET\nendstream\nendobj\nxref\n0 5\n0000000000 65535 f\n0000000009 00000 n\n0000000058 00000 n\n0000000115 00000 n\n0000000204 00000 n\ntrailer\n<< /Size 5 /Root 1 0 R >>\nstartxref\n${300 + mergedContent.length}\n%%EOF`;
-      
-      const fullPdf = pdfHeader + pdfContent;
-      return new Blob([fullPdf], { type: 'application/pdf' });
-      
-    } catch (error) {
-      console.error('Error merging PDFs:', error);
-      // Fallback: concatenate the raw binary data
-      const allBuffers: ArrayBuffer[] = [];
-      for (const file of files) {
-        const buffer = await file.arrayBuffer();
-        allBuffers.push(buffer);
+  // For PDF files - graft every page into a single document
+  if (fileExtension === 'pdf' || options.normalizeToPdf) {
+    const documents: PdfDocument[] = [];
+    for (const file of files) {
+      let data: ArrayBuffer | Uint8Array;
+      if (file.name.toLowerCase().endsWith('.pdf')) {
+        data = await file.arrayBuffer();
+      } else {
+        // Converted one at a time so the status updates follow the file order
+        options.onConversionStatus?.(file, 'converting');
+        try {
+          data = await convertToPdf(file);
+          options.onConversionStatus?.(file, 'converted');
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          options.onConversionStatus?.(file, 'failed', message);
+          throw new Error(`Could not convert ${file.name}: ${message}`);
+        }
       }
-      
-      const totalSize = allBuffers.reduce((sum, buffer) => sum + buffer.byteLength, 0);
-      const mergedBuffer = new ArrayBuffer(totalSize);
-      const mergedView = new Uint8Array(mergedBuffer);
-      
-      let offset = 0;
-      for (const buffer of allBuffers) {
-        const view = new Uint8Array(buffer);
-        mergedView.set(view, offset);
-        offset += view.length;
+      try {
+        documents.push(await loadPdf(data));
+      } catch (error) {
+        throw new Error(`Could not read ${file.name}: ${error instanceof Error ? error.message : error}`);
       }
-      
-      return new Blob([mergedBuffer], { type: 'application/pdf' });
     }
+
+    const fileTitles = files.map(file => file.name.replace(/\.[^.]+$/, ''));
+    const documentNames = options.bookmarks === 'documentTitle'
+      ? documents.map((doc, index) => getDocumentTitle(doc) || fileTitles[index])
+      : fileTitles;
+    const outlineTitles = !options.bookmarks || options.bookmarks === 'none' ? undefined : documentNames;
+
+    const title = outputFilename.replace(/\.pdf$/i, '');
+    const mergedPdf = mergePdfDocuments(documents, {
+      title,
+      pageSelections: options.pageSelections,
+      outlineTitles,
+      interleave: options.interleave,
+      reversed: options.reversedFiles,
+      documentNames,
+      coverPage: options.coverTitle?.trim()
+        ? { title: options.coverTitle.trim(), date: new Date().toLocaleDateString(undefined, { dateStyle: 'long' }) }
+        : undefined,
+      separatorPages: options.separatorPages,
+      tableOfContents: options.tableOfContents,
+    });
+    return new Blob([mergedPdf], { type: 'application/pdf' });
   }
   
-  // For text-based files (TXT, CSV, etc.)
-  if (firstFile.type.startsWith('text/') || fileExtension === 'txt' || fileExtension === 'csv') {
+  // For CSV files - one table under the union of all headers
+  if (fileExtension === 'csv') {
+    const sources = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+    const mergedCsv = mergeCsvDocuments(sources, { sourceColumn: options.sourceFileColumn ? 'source_file' : undefined });
+    return new Blob([mergedCsv], { type: 'text/csv' });
+  }
+
+  // For text-based files (TXT, etc.)
+  if (firstFile.type.startsWith('text/') || fileExtension === 'txt') {
     let mergedText = '';
     
     for (let i = 0; i < files.length; i++) {
@@ -125,8 +162,25 @@ export const createMergedDocument = async (files: File[], outputFilename: string
     return new Blob([mergedText], { type: firstFile.type || 'text/plain' });
   }
   
-  // For Word documents (DOCX) and PowerPoint (PPTX)
-  if (fileExtension === 'docx' || fileExtension === 'pptx' || fileExtension === 'doc' || fileExtension === 'ppt') {
+  // For Word documents - append every body to the first document's package
+  if (fileExtension === 'docx') {
+    const sources = await Promise.all(files.map(file => file.arrayBuffer()));
+    const mergedDocx = await mergeDocxDocuments(sources, options.documentBreak ?? 'page');
+    return new Blob([mergedDocx], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+  }
+
+  // For PowerPoint decks - append every deck's slides to the first presentation
+  if (fileExtension === 'pptx') {
+    const sources = await Promise.all(files.map(file => file.arrayBuffer()));
+    const mergedPptx = await mergePptxDocuments(sources, {
+      masters: options.slideMasters ?? 'keep',
+      sectionTitles: files.map(file => file.name.replace(/\.[^.]+$/, '')),
+    });
+    return new Blob([mergedPptx], { type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' });
+  }
+
+  // For legacy Office documents (DOC, PPT)
+  if (fileExtension === 'doc' || fileExtension === 'ppt') {
     // Since we can't properly merge binary Office documents without specialized libraries,
     // we'll create a combined document by concatenating the binary data with proper separators
     const fileContents: ArrayBuffer[] = [];
@@ -175,43 +229,128 @@ export const createMergedDocument = async (files: File[], outputFilename: string
   return new Blob([mergedBuffer], { type: firstFile.type });
 };
 
-// Create split documents from a single file
+// Create split documents from a single file, one output per part; see
+// splitNaming for the tokens the naming pattern may use
+export interface SplitOptions {
+  // Where Word documents are cut; the part's page numbers count these pieces (DOCX only)
+  docxSplitMode?: DocxSplitMode;
+  // Cut text files into chunks instead of pages, as one file per chunk or a
+  // single JSONL file with the chunk offsets (TXT only)
+  textChunks?: TextChunkOptions & { output: 'files' | 'jsonl' };
+  // Cut CSV files by data rows or by the values of a column, repeating the header (CSV only)
+  csv?: CsvSplitOptions;
+}
+
 export const createSplitDocuments = async (
   originalFile: File, 
-  pageNumbers: number[], 
-  namingPattern: string
-): Promise<{ name: string; content: Blob }[]> => {
+  splitParts: SplitPartInfo[], 
+  namingPattern: string,
+  options: SplitOptions = {}
+): Promise<{ name: string; content: Blob; pages: number[] }[]> => {
   const originalExtension = originalFile.name.split('.').pop()?.toLowerCase() || 'pdf';
   const baseName = originalFile.name.split('.').slice(0, -1).join('.');
   const originalContent = await originalFile.arrayBuffer();
+  const pageGroups = splitParts.map(part => part.pages);
+  const fileNames = makeUniqueNames(fillNamingPattern(namingPattern, splitParts, { basename: baseName }));
+  
+  console.log('Splitting file:', { name: originalFile.name, size: originalFile.size, pages: pageGroups });
+  
+  // For PDF files, copy the selected page objects into a standalone document per group
+  if (originalExtension === 'pdf') {
+    const doc = await loadPdf(originalContent);
+    
+    const parts: { name: string; content: Blob; pages: number[] }[] = [];
+    for (const [index, group] of pageGroups.entries()) {
+      const fileName = fileNames[index];
+      const pdfBytes = await extractPdfPages(doc, group, fileName);
+      parts.push({
+        name: `${fileName}.pdf`,
+        content: new Blob([pdfBytes], { type: 'application/pdf' }),
+        pages: group
+      });
+    }
+    return parts;
+  }
+  
+  // For Word documents, rebuild a complete DOCX from the blocks of each group
+  if (originalExtension === 'docx') {
+    const docxParts = await splitDocxDocument(originalContent, options.docxSplitMode ?? 'page', pageGroups);
+    return docxParts.map((content, index) => ({
+      name: `${fileNames[index]}.docx`,
+      content: new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }),
+      pages: pageGroups[index]
+    }));
+  }
+  
+  // For presentations, keep each group's slides with only the layouts, masters and media they use
+  if (originalExtension === 'pptx') {
+    const decks = await splitPptxDocument(originalContent, pageGroups);
+    return decks.map((content, index) => ({
+      name: `${fileNames[index]}.pptx`,
+      content: new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.presentationml.presentation' }),
+      pages: pageGroups[index]
+    }));
+  }
   
-  console.log('Splitting file:', { name: originalFile.name, size: originalFile.size, pages: pageNumbers });
+  // For CSV files, every part gets the header row; pages count data rows
+  if (originalExtension === 'csv' && options.csv) {
+    const csvParts = splitCsvDocument(await originalFile.text(), options.csv);
+    const partInfo = csvParts.map(part => ({ pages: part.rows, group: part.group }));
+    const csvNames = makeUniqueNames(fillNamingPattern(namingPattern, partInfo, { basename: baseName }));
+    return csvParts.map((part, index) => ({
+      name: `${csvNames[index]}.csv`,
+      content: new Blob([part.text], { type: 'text/csv' }),
+      pages: part.rows
+    }));
+  }
   
-  // For text files, split by lines or paragraphs
+  // For text files, split into chunks or into pages of TEXT_LINES_PER_PAGE lines
   if (originalFile.type.startsWith('text/') || originalExtension === 'txt') {
     const text = await originalFile.text();
+
+    if (options.textChunks) {
+      const { output, ...chunkOptions } = options.textChunks;
+      const chunks = chunkText(text, chunkOptions);
+      if (chunks.length === 0) {
+        throw new Error('The file does not contain any text');
+      }
+      if (output === 'jsonl') {
+        return [{
+          name: `${baseName}_chunks.jsonl`,
+          content: new Blob([formatChunksAsJsonl(chunks, originalFile.name)], { type: 'application/jsonl' }),
+          pages: chunks.map((_, index) => index + 1)
+        }];
+      }
+      const chunkParts = chunks.map((_, index) => ({ pages: [index + 1] }));
+      const chunkNames = makeUniqueNames(fillNamingPattern(namingPattern, chunkParts, { basename: baseName }));
+      return chunks.map((chunk, index) => ({
+        name: `${chunkNames[index]}.${originalExtension}`,
+        content: new Blob([chunk.text], { type: originalFile.type || 'text/plain' }),
+        pages: chunkParts[index].pages
+      }));
+    }
+
     const lines = text.split('\n');
-    const linesPerPage = Math.ceil(lines.length / pageNumbers.length);
-    
-    return pageNumbers.map((pageNum, index) => {
-      const startLine = index * linesPerPage;
-      const endLine = Math.min(startLine + linesPerPage, lines.length);
-      const pageContent = lines.slice(startLine, endLine).join('\n');
+    return pageGroups.map((group, index) => {
+      const pageContent = group
+        .flatMap(page => lines.slice((page - 1) * TEXT_LINES_PER_PAGE, page * TEXT_LINES_PER_PAGE))
+        .join('\n');
       
-      const fileName = namingPattern.replace('{n}', pageNum.toString());
+      const fileName = fileNames[index];
       const fullFileName = `${fileName}.${originalExtension}`;
       
       return {
         name: fullFileName,
-        content: new Blob([pageContent], { type: originalFile.type })
+        content: new Blob([pageContent], { type: originalFile.type }),
+        pages: group
       };
     });
   }
   
-  // For binary files (PDF, DOCX, PPTX), create chunks
-  const chunkSize = Math.ceil(originalContent.byteLength / pageNumbers.length);
+  // For other binary files (DOC, PPT), create chunks
+  const chunkSize = Math.ceil(originalContent.byteLength / pageGroups.length);
   
-  return pageNumbers.map((pageNum, index) => {
+  return pageGroups.map((group, index) => {
     const startOffset = index * chunkSize;
     const endOffset = Math.min(startOffset + chunkSize, originalContent.byteLength);
     
@@ -219,12 +358,13 @@ export const createSplitDocuments = async (
     const actualEndOffset = endOffset > startOffset ? endOffset : originalContent.byteLength;
     const chunkContent = originalContent.slice(startOffset, actualEndOffset);
     
-    const fileName = namingPattern.replace('{n}', pageNum.toString());
+    const fileName = fileNames[index];
     const fullFileName = `${fileName}.${originalExtension}`;
     
     return {
       name: fullFileName,
-      content: new Blob([chunkContent], { type: originalFile.type })
+      content: new Blob([chunkContent], { type: originalFile.type }),
+      pages: group
     };
   });
 };
@@ -351,52 +491,10 @@ export const convertDocumentFormat = async (
     return new Blob([htmlContent], { type: 'text/html' });
   }
   
-  // For PDF conversion from text files
-  if (targetFormat.toLowerCase() === 'pdf' && originalFile.type.startsWith('text/')) {
-    try {
-      const text = await originalFile.text();
-      // Create a simple PDF with the text content
-      const pdfContent = `%PDF-1.4
-1 0 obj
-<< /Type /Catalog /Pages 2 0 R >>
-endobj
-2 0 obj
-<< /Type /Pages /Kids [3 0 R] /Count 1 >>
-endobj
-3 0 obj
-<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>
-endobj
-4 0 obj
-<< /Length ${text.length + 100} >>
-stream
-BT
-/F1 12 Tf
-50 750 Td
-(${text.replace(/\n/g, ') Tj T* (').replace(/\r/g, '')}) Tj
-ET
-endstream
-endobj
-5 0 obj
-<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>
-endobj
-xref
-0 6
-0000000000 65535 f 
-0000000009 00000 n 
-0000000058 00000 n 
-0000000115 00000 n 
-0000000258 00000 n 
-0000000${(400 + text.length).toString().padStart(3, '0')} 00000 n 
-trailer
-<< /Size 6 /Root 1 0 R >>
-startxref
-${450 + text.length}
-%%EOF`;
-      
-      return new Blob([pdfContent], { type: 'application/pdf' });
-    } catch (error) {
-      console.error('Error converting text to PDF:', error);
-    }
+  // For PDF conversion of documents, images and text
+  if (targetFormat.toLowerCase() === 'pdf' && canConvertToPdf(originalFile.name)) {
+    const pdfBytes = await convertToPdf(originalFile);
+    return new Blob([pdfBytes], { type: 'application/pdf' });
   }
   
   // For other format conversions, return the original content with new MIME type
@@ -0,0 +1,287 @@
+import { ZipEntry, createZip, openZip, readZipEntry } from "@/utils/zipUtils";
+
+// Open Packaging Conventions helpers shared by the DOCX and PPTX tools.
+// Part names are package paths without a leading slash, e.g. "word/document.xml".
+
+export const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const CONTENT_TYPES_PART = '[Content_Types].xml';
+
+export interface OoxmlPackage {
+  // Untouched parts stay as compressed ZIP entries until the package is saved
+  parts: Map<string, ZipEntry | Uint8Array>;
+  contentTypes: Document;
+}
+
+export interface OoxmlRelationship {
+  id: string;
+  // Last segment of the relationship type URI, e.g. "image" or "hyperlink"
+  type: string;
+  typeUri: string;
+  // Resolved part name for internal targets, the raw URI for external ones
+  target: string;
+  external: boolean;
+}
+
+export const parseXml = (text: string): Document => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Malformed XML');
+  }
+  return doc;
+};
+
+export const serializeXml = (doc: Document): string => {
+  const xml = new XMLSerializer().serializeToString(doc);
+  return xml.startsWith('<?xml') ? xml : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${xml}`;
+};
+
+export const loadPackage = async (data: ArrayBuffer | Uint8Array): Promise<OoxmlPackage> => {
+  const parts = new Map<string, ZipEntry | Uint8Array>(openZip(data));
+  const contentTypes = parts.get(CONTENT_TYPES_PART);
+  if (!contentTypes) {
+    throw new Error('Not an Office Open XML package');
+  }
+  parts.delete(CONTENT_TYPES_PART);
+  return { parts, contentTypes: parseXml(await decodeText(contentTypes)) };
+};
+
+export const savePackage = async (pkg: OoxmlPackage): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: CONTENT_TYPES_PART, content: encoder.encode(serializeXml(pkg.contentTypes)) },
+    ...[...pkg.parts].map(([name, content]) => ({ name, content })),
+  ]);
+};
+
+const decodeText = async (content: ZipEntry | Uint8Array) =>
+  new TextDecoder('utf-8').decode(content instanceof Uint8Array ? content : await readZipEntry(content));
+
+export const readXmlPart = async (pkg: OoxmlPackage, name: string): Promise<Document | null> => {
+  const content = pkg.parts.get(name);
+  return content ? parseXml(await decodeText(content)) : null;
+};
+
+export const writeXmlPart = (pkg: OoxmlPackage, name: string, doc: Document) => {
+  pkg.parts.set(name, new TextEncoder().encode(serializeXml(doc)));
+};
+
+// "word/document.xml" -> "word/_rels/document.xml.rels"
+export const getRelationshipsPartName = (name: string) => {
+  const slash = name.lastIndexOf('/');
+  return `${name.slice(0, slash + 1)}_rels/${name.slice(slash + 1)}.rels`;
+};
+
+// Resolves a relationship target relative to the part that owns it
+export const resolvePartName = (sourceName: string, target: string) => {
+  const segments = target.startsWith('/') ? [] : sourceName.split('/').slice(0, -1);
+  for (const segment of target.replace(/^\//, '').split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment !== '.' && segment !== '') segments.push(segment);
+  }
+  return segments.join('/');
+};
+
+const relativePartName = (sourceName: string, targetName: string) => {
+  const from = sourceName.split('/').slice(0, -1);
+  const to = targetName.split('/');
+  let shared = 0;
+  while (shared < from.length && shared < to.length - 1 && from[shared] === to[shared]) shared++;
+  return [...from.slice(shared).map(() => '..'), ...to.slice(shared)].join('/');
+};
+
+export const readRelationships = async (pkg: OoxmlPackage, name: string): Promise<OoxmlRelationship[]> => {
+  const rels = await readXmlPart(pkg, getRelationshipsPartName(name));
+  if (!rels) return [];
+  return Array.from(rels.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship')).map(rel => {
+    const typeUri = rel.getAttribute('Type') || '';
+    const external = rel.getAttribute('TargetMode') === 'External';
+    const target = rel.getAttribute('Target') || '';
+    return {
+      id: rel.getAttribute('Id') || '',
+      type: typeUri.split('/').pop() || '',
+      typeUri,
+      target: external ? target : resolvePartName(name, target),
+      external,
+    };
+  });
+};
+
+export const readRelationshipsDocument = async (pkg: OoxmlPackage, name: string): Promise<Document> =>
+  (await readXmlPart(pkg, getRelationshipsPartName(name))) ??
+  parseXml(`<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NS}"/>`);
+
+// Adds a relationship under a fresh rIdN and returns that id
+export const addRelationship = (
+  rels: Document,
+  sourceName: string,
+  typeUri: string,
+  target: string,
+  external = false
+): string => {
+  const existing = new Set(
+    Array.from(rels.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship')).map(rel => rel.getAttribute('Id'))
+  );
+  let next = existing.size + 1;
+  while (existing.has(`rId${next}`)) next++;
+
+  const rel = rels.createElementNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship');
+  rel.setAttribute('Id', `rId${next}`);
+  rel.setAttribute('Type', typeUri);
+  rel.setAttribute('Target', external ? target : relativePartName(sourceName, target));
+  if (external) rel.setAttribute('TargetMode', 'External');
+  rels.documentElement.appendChild(rel);
+  return `rId${next}`;
+};
+
+export const getContentType = (pkg: OoxmlPackage, name: string): string | null => {
+  for (const override of Array.from(pkg.contentTypes.getElementsByTagNameNS(CONTENT_TYPES_NS, 'Override'))) {
+    if (override.getAttribute('PartName')?.toLowerCase() === `/${name}`.toLowerCase()) {
+      return override.getAttribute('ContentType');
+    }
+  }
+  const extension = name.split('.').pop()?.toLowerCase();
+  for (const fallback of Array.from(pkg.contentTypes.getElementsByTagNameNS(CONTENT_TYPES_NS, 'Default'))) {
+    if (fallback.getAttribute('Extension')?.toLowerCase() === extension) {
+      return fallback.getAttribute('ContentType');
+    }
+  }
+  return null;
+};
+
+export const setContentType = (pkg: OoxmlPackage, name: string, contentType: string) => {
+  if (getContentType(pkg, name) === contentType) return;
+  const override = pkg.contentTypes.createElementNS(CONTENT_TYPES_NS, 'Override');
+  override.setAttribute('PartName', `/${name}`);
+  override.setAttribute('ContentType', contentType);
+  pkg.contentTypes.documentElement.appendChild(override);
+};
+
+// Picks a part name not used in the package by bumping its trailing number the
+// way Office names parts: "ppt/slides/slide1.xml" -> "ppt/slides/slide4.xml"
+export const getUniquePartName = (pkg: OoxmlPackage, name: string) => {
+  if (!pkg.parts.has(name)) return name;
+  const dot = name.lastIndexOf('.');
+  const [stem, extension] = dot > name.lastIndexOf('/') ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  const [, base, digits] = stem.match(/^(.*?)(\d*)$/) || [stem, stem, ''];
+  let number = digits ? parseInt(digits, 10) + 1 : 2;
+  while (pkg.parts.has(`${base}${number}${extension}`)) number++;
+  return `${base}${number}${extension}`;
+};
+
+// Copies a part and everything reachable through its relationships into another
+// package. `copied` maps source part names to target names so shared parts are
+// copied once; returns the part's name in the target package.
+export const copyPart = async (
+  source: OoxmlPackage,
+  target: OoxmlPackage,
+  name: string,
+  copied: Map<string, string>
+): Promise<string> => {
+  const existing = copied.get(name);
+  if (existing) return existing;
+
+  const content = source.parts.get(name);
+  if (!content) {
+    throw new Error(`Missing package part ${name}`);
+  }
+  const targetName = getUniquePartName(target, name);
+  copied.set(name, targetName);
+  target.parts.set(targetName, content);
+  const contentType = getContentType(source, name);
+  if (contentType) setContentType(target, targetName, contentType);
+
+  const relsName = getRelationshipsPartName(name);
+  const rels = await readXmlPart(source, relsName);
+  if (!rels) return targetName;
+
+  // Relationship ids are kept, so the part's own XML needs no changes
+  for (const rel of Array.from(rels.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship'))) {
+    if (rel.getAttribute('TargetMode') === 'External') continue;
+    const relTarget = resolvePartName(name, rel.getAttribute('Target') || '');
+    if (!source.parts.has(relTarget)) continue;
+    const copiedTarget = await copyPart(source, target, relTarget, copied);
+    rel.setAttribute('Target', relativePartName(targetName, copiedTarget));
+  }
+  writeXmlPart(target, getRelationshipsPartName(targetName), rels);
+  return targetName;
+};
+
+// Drops statistics such as <Pages> or <Slides> from docProps/app.xml once they no longer apply
+export const removeAppProperties = async (pkg: OoxmlPackage, names: string[]) => {
+  const app = await readXmlPart(pkg, 'docProps/app.xml');
+  if (!app) return;
+  for (const name of names) {
+    for (const element of Array.from(app.getElementsByTagName(name))) {
+      element.parentNode?.removeChild(element);
+    }
+  }
+  writeXmlPart(pkg, 'docProps/app.xml', app);
+};
+
+// Name of the main document part (word/document.xml, ppt/presentation.xml, ...)
+export const getMainPartName = async (pkg: OoxmlPackage): Promise<string> => {
+  const main = (await readRelationships(pkg, '')).find(rel => rel.type === 'officeDocument' && !rel.external);
+  if (!main) {
+    throw new Error('Missing main document part');
+  }
+  return main.target;
+};
+
+// Drops relationships of the given types (e.g. "image", "hyperlink") whose ids the
+// part's XML no longer mentions, after content was removed from it
+export const removeUnusedRelationships = async (pkg: OoxmlPackage, name: string, xml: Document, types: string[]) => {
+  const relsName = getRelationshipsPartName(name);
+  const rels = await readXmlPart(pkg, relsName);
+  if (!rels) return;
+
+  const used = new Set<string>();
+  const visit = (element: Element) => {
+    for (const attribute of Array.from(element.attributes)) {
+      // Diagram drawings are referenced through a plain relId attribute
+      if (attribute.namespaceURI === RELATIONSHIPS_NS || attribute.localName.toLowerCase() === 'relid') {
+        used.add(attribute.value);
+      }
+    }
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType === 1) visit(child as Element);
+    }
+  };
+  visit(xml.documentElement);
+
+  for (const rel of Array.from(rels.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship'))) {
+    const type = (rel.getAttribute('Type') || '').split('/').pop() || '';
+    if (types.includes(type) && !used.has(rel.getAttribute('Id') || '')) {
+      rel.parentNode?.removeChild(rel);
+    }
+  }
+  writeXmlPart(pkg, relsName, rels);
+};
+
+// Deletes parts (with their relationships and content type overrides) that can no
+// longer be reached from the package relationships
+export const removeUnreachableParts = async (pkg: OoxmlPackage) => {
+  const reachable = new Set<string>();
+  const queue = [''];
+  while (queue.length > 0) {
+    for (const rel of await readRelationships(pkg, queue.pop() ?? '')) {
+      if (rel.external || reachable.has(rel.target) || !pkg.parts.has(rel.target)) continue;
+      reachable.add(rel.target);
+      queue.push(rel.target);
+    }
+  }
+
+  const removed = new Set<string>();
+  for (const name of [...pkg.parts.keys()]) {
+    if (name.endsWith('.rels') || reachable.has(name)) continue;
+    pkg.parts.delete(name);
+    pkg.parts.delete(getRelationshipsPartName(name));
+    removed.add(`/${name}`.toLowerCase());
+  }
+  for (const override of Array.from(pkg.contentTypes.getElementsByTagNameNS(CONTENT_TYPES_NS, 'Override'))) {
+    if (removed.has(override.getAttribute('PartName')?.toLowerCase() ?? '')) {
+      override.parentNode?.removeChild(override);
+    }
+  }
+};
@@ -0,0 +1,42 @@
+import { getPages, loadPdf } from "@/utils/pdfReader";
+import { getDocxSections } from "@/utils/docxSplit";
+import { getPptxSlideCount } from "@/utils/pptxSplit";
+
+// Plain text has no pages of its own, so it is paginated by line count
+export const TEXT_LINES_PER_PAGE = 50;
+
+const getPdfPageCount = async (file: File) => {
+  // /Count is often wrong in damaged files, the page tree itself is what gets split
+  return getPages(await loadPdf(await file.arrayBuffer())).length;
+};
+
+// Word documents can only be cut at explicit breaks, so their pages are the pieces between them
+const getDocxPageCount = async (file: File) => (await getDocxSections(await file.arrayBuffer(), 'page')).length;
+
+const getTextPageCount = async (file: File) => {
+  const text = await file.text();
+  const lines = text.split('\n').length;
+  return Math.max(1, Math.ceil(lines / TEXT_LINES_PER_PAGE));
+};
+
+// Number of pages (slides for presentations) in a document
+export const getPageCount = async (file: File): Promise<number> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'pdf':
+      return getPdfPageCount(file);
+    case 'pptx':
+      return getPptxSlideCount(await file.arrayBuffer());
+    case 'docx':
+      return getDocxPageCount(file);
+    case 'txt':
+    case 'csv':
+      return getTextPageCount(file);
+    default:
+      if (file.type.startsWith('text/')) {
+        return getTextPageCount(file);
+      }
+      throw new Error(`Page counting is not supported for .${extension} files`);
+  }
+};
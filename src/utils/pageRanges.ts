@@ -0,0 +1,123 @@
+// Page range grammar shared by the split and merge tools, e.g. "1-5, 8, 11-13".
+// Each comma-separated entry becomes one group of 1-based page numbers, in the
+// order written, so a list can also reorder pages. An entry is one of:
+//   7          a single page
+//   3-9, 9-3   a range; a reversed range lists the pages last to first
+//   5-, -3     open ranges up to the last page or from the first one
+//   z, last    the last page; z-2 is two pages before it
+//   odd, even  every odd or even page
+//   !4, !2-5   pages left out of all the other entries (on their own: out of all pages)
+
+export interface PageRangeResult {
+  groups: number[][];
+  // One message per entry that could not be read
+  errors: string[];
+}
+
+// A page number, or z/last with an optional offset; "z-2" is always read as an
+// offset, so a range down from the last page is written with numbers (e.g. 10-8)
+const PAGE_REFERENCE = /^(?:(\d+)|(z|last)(?:-(\d+))?)/i;
+
+const requirePageCount = (totalPages: number | null, entry: string) => {
+  if (totalPages === null) {
+    throw new Error(`"${entry}" needs the page count, which is not known yet`);
+  }
+  return totalPages;
+};
+
+const readReference = (text: string, totalPages: number | null, entry: string) => {
+  const match = text.match(PAGE_REFERENCE);
+  if (!match) return null;
+  const page = match[1] !== undefined
+    ? parseInt(match[1], 10)
+    : requirePageCount(totalPages, entry) - parseInt(match[3] ?? '0', 10);
+  return { page, length: match[0].length };
+};
+
+const listPages = (from: number, to: number) =>
+  Array.from({ length: Math.abs(to - from) + 1 }, (_, i) => (from <= to ? from + i : from - i));
+
+const resolveEntry = (entry: string, totalPages: number | null): number[] => {
+  const keyword = entry.toLowerCase();
+  if (keyword === 'odd' || keyword === 'even') {
+    const pages = listPages(1, requirePageCount(totalPages, entry));
+    return pages.filter(page => page % 2 === (keyword === 'odd' ? 1 : 0));
+  }
+
+  let from: number;
+  let to: number;
+  if (entry.startsWith('-')) {
+    const end = readReference(entry.slice(1), totalPages, entry);
+    if (!end || end.length !== entry.length - 1) throw new Error(`"${entry}" is not a page or range`);
+    from = 1;
+    to = end.page;
+  } else {
+    const start = readReference(entry, totalPages, entry);
+    const rest = start ? entry.slice(start.length) : '';
+    if (!start || (rest !== '' && !rest.startsWith('-'))) throw new Error(`"${entry}" is not a page or range`);
+    from = start.page;
+    if (rest === '') {
+      to = from;
+    } else if (rest === '-') {
+      to = requirePageCount(totalPages, entry);
+    } else {
+      const end = readReference(rest.slice(1), totalPages, entry);
+      if (!end || end.length !== rest.length - 1) throw new Error(`"${entry}" is not a page or range`);
+      to = end.page;
+    }
+  }
+
+  if (from === to && (from < 1 || (totalPages !== null && from > totalPages))) {
+    throw new Error(`Page ${from} does not exist${totalPages !== null ? ` (the document has ${totalPages} pages)` : ''}`);
+  }
+  if (Math.min(from, to) < 1) throw new Error(`"${entry}" goes before page 1`);
+  if (totalPages !== null && Math.max(from, to) > totalPages) {
+    throw new Error(`"${entry}" goes past the last page (${totalPages})`);
+  }
+  return listPages(from, to);
+};
+
+// totalPages is null while the page count is unknown; entries that depend on it
+// (z, odd, open ranges, ...) are then reported as errors
+export const parsePageRanges = (ranges: string, totalPages: number | null): PageRangeResult => {
+  const groups: number[][] = [];
+  const excluded = new Set<number>();
+  const errors: string[] = [];
+  let selections = 0;
+
+  for (const entry of ranges.split(',').map(part => part.replace(/\s+/g, '')).filter(Boolean)) {
+    const exclusion = entry.startsWith('!');
+    if (!exclusion) selections++;
+    try {
+      const pages = resolveEntry(exclusion ? entry.slice(1) : entry, totalPages);
+      if (exclusion) pages.forEach(page => excluded.add(page));
+      else groups.push(pages);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (selections === 0 && excluded.size > 0) {
+    try {
+      groups.push(listPages(1, requirePageCount(totalPages, ranges.trim())));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const result = groups.map(group => group.filter(page => !excluded.has(page))).filter(group => group.length > 0);
+  if (result.length === 0 && errors.length === 0) errors.push('No pages are selected');
+  return { groups: result, errors };
+};
+
+// Compacts a page sequence back into range notation, e.g. [1, 2, 3, 7] -> "1-3, 7"
+export const formatPageList = (pages: number[]): string => {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 1; i <= pages.length; i++) {
+    if (i < pages.length && pages[i] === pages[i - 1] + 1) continue;
+    parts.push(i - 1 === start ? `${pages[start]}` : `${pages[start]}-${pages[i - 1]}`);
+    start = i;
+  }
+  return parts.join(', ');
+};
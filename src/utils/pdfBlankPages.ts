@@ -0,0 +1,300 @@
+import { PdfDict, PdfName, PdfStream, PdfValue, dictGet, isName, isStream, isString } from "@/utils/pdfObjects";
+import {
+  PdfDocument,
+  decodeStream,
+  getPageAttribute,
+  getPageContents,
+  getPages,
+  parseContentStream,
+  resolveDict,
+  resolveValue,
+} from "@/utils/pdfReader";
+import { applyFilters } from "@/utils/pdfFilters";
+
+// Detection of blank separator sheets. Pages drawn from vectors and text are blank
+// when nothing visible is painted; scanned pages are blank when the share of dark
+// pixels in their images stays under a threshold.
+
+export interface PdfBlankPageOptions {
+  // Largest share of dark pixels (0-1) an image may have on a blank page
+  maxCoverage?: number;
+}
+
+// Anything darker than light grey counts as ink (0-255 luminance)
+const INK_LUMINANCE = 160;
+// Scanners often leave dark borders around the sheet; this share of each edge is ignored
+const EDGE_MARGIN = 0.05;
+// Pixels sampled per image at most, to keep large scans quick
+const MAX_SAMPLES = 250000;
+// Decoded scans are drawn at most this wide or tall before being measured
+const MAX_DECODED_SIZE = 1024;
+const MAX_FORM_DEPTH = 8;
+
+const PATH_PAINTING = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*']);
+const FILL_ONLY = new Set(['f', 'F', 'f*']);
+const TEXT_SHOWING = new Set(['Tj', 'TJ', "'", '"']);
+
+// Share of sampled pixels darker than INK_LUMINANCE, skipping the edges of the image
+const measureCoverage = (width: number, height: number, luminanceAt: (x: number, y: number) => number) => {
+  const left = Math.floor(width * EDGE_MARGIN);
+  const top = Math.floor(height * EDGE_MARGIN);
+  const right = width - left;
+  const bottom = height - top;
+  const step = Math.max(1, Math.floor(Math.sqrt(((right - left) * (bottom - top)) / MAX_SAMPLES)));
+
+  let samples = 0;
+  let dark = 0;
+  for (let y = top; y < bottom; y += step) {
+    for (let x = left; x < right; x += step) {
+      samples++;
+      if (luminanceAt(x, y) < INK_LUMINANCE) dark++;
+    }
+  }
+  return samples === 0 ? 0 : dark / samples;
+};
+
+const toLuminance = (components: number[]) => {
+  switch (components.length) {
+    case 1:
+      return components[0] * 255;
+    case 3:
+      return (0.299 * components[0] + 0.587 * components[1] + 0.114 * components[2]) * 255;
+    case 4: {
+      const [c, m, y, k] = components;
+      return (0.299 * (1 - c) + 0.587 * (1 - m) + 0.114 * (1 - y)) * (1 - k) * 255;
+    }
+    default:
+      return 255;
+  }
+};
+
+// Component count of a device or ICC based color space, or null for anything else
+const getComponentCount = (doc: PdfDocument, colorSpace: PdfValue): number | null => {
+  const space = resolveValue(doc, colorSpace);
+  const name = isName(space) ? space.name : Array.isArray(space) && isName(space[0]) ? space[0].name : null;
+  switch (name) {
+    case 'DeviceGray':
+    case 'CalGray':
+    case 'G':
+      return 1;
+    case 'DeviceRGB':
+    case 'CalRGB':
+    case 'RGB':
+      return 3;
+    case 'DeviceCMYK':
+    case 'CMYK':
+      return 4;
+    case 'ICCBased': {
+      const profile = Array.isArray(space) ? resolveValue(doc, space[1]) : null;
+      const count = isStream(profile) ? resolveValue(doc, dictGet(profile.dict, 'N')) : null;
+      return count === 1 || count === 3 || count === 4 ? count : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Drawn through the browser's JPEG decoder, scaled down
+const measureJpegCoverage = async (data: Uint8Array): Promise<number | null> => {
+  if (typeof createImageBitmap !== 'function' || typeof OffscreenCanvas === 'undefined') return null;
+  const bitmap = await createImageBitmap(new Blob([data], { type: 'image/jpeg' }));
+  const scale = Math.min(1, MAX_DECODED_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = new OffscreenCanvas(width, height).getContext('2d');
+  if (!context) {
+    bitmap.close();
+    return null;
+  }
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const pixels = context.getImageData(0, 0, width, height).data;
+  return measureCoverage(width, height, (x, y) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+  });
+};
+
+// Reads raw samples of 1 to 8 bits per component (16-bit samples use their high byte)
+const measureSampledCoverage = (doc: PdfDocument, image: PdfStream, samples: Uint8Array): number | null => {
+  const width = resolveValue(doc, dictGet(image.dict, 'Width'));
+  const height = resolveValue(doc, dictGet(image.dict, 'Height'));
+  if (typeof width !== 'number' || typeof height !== 'number' || width < 1 || height < 1) return null;
+
+  const imageMask = resolveValue(doc, dictGet(image.dict, 'ImageMask')) === true;
+  const bits = imageMask ? 1 : resolveValue(doc, dictGet(image.dict, 'BitsPerComponent'));
+  if (bits !== 1 && bits !== 2 && bits !== 4 && bits !== 8 && bits !== 16) return null;
+
+  const colorSpace = resolveValue(doc, dictGet(image.dict, 'ColorSpace'));
+  const indexed = !imageMask && Array.isArray(colorSpace) && isName(colorSpace[0], 'Indexed');
+  const components = imageMask ? 1 : getComponentCount(doc, indexed ? colorSpace[1] : colorSpace);
+  // Palettes stored as streams are rare enough to leave unmeasured
+  const lookup = indexed ? resolveValue(doc, colorSpace[3]) : null;
+  const palette = isString(lookup) ? lookup.bytes : null;
+  if (!components || (indexed && !palette)) return null;
+
+  const channels = palette ? 1 : components;
+  const rowBits = Math.ceil((width * channels * bits) / 8) * 8;
+  const maxValue = (1 << Math.min(bits, 8)) - 1;
+  const decode = resolveValue(doc, dictGet(image.dict, 'Decode'));
+  const inverted = Array.isArray(decode) && decode[0] === 1 && decode[1] === 0;
+
+  const readSample = (x: number, y: number, channel: number) => {
+    const offset = y * rowBits + (x * channels + channel) * bits;
+    if (bits >= 8) return samples[offset / 8] ?? 0;
+    return ((samples[offset >> 3] ?? 0) >> (8 - bits - (offset & 7))) & maxValue;
+  };
+
+  return measureCoverage(width, height, (x, y) => {
+    if (imageMask) {
+      // Mask samples of 0 are painted with the fill color (1 with an inverted /Decode)
+      return (readSample(x, y, 0) === 0) !== inverted ? 0 : 255;
+    }
+    if (palette) {
+      const index = readSample(x, y, 0) * components;
+      return toLuminance(Array.from(palette.subarray(index, index + components), value => value / 255));
+    }
+    const values = Array.from({ length: components }, (_, channel) => readSample(x, y, channel) / maxValue);
+    return toLuminance(inverted ? values.map(value => 1 - value) : values);
+  });
+};
+
+// Share of dark pixels in an image XObject, or null when its encoding cannot be read here
+const getImageCoverage = async (doc: PdfDocument, image: PdfStream): Promise<number | null> => {
+  const filter = resolveValue(doc, dictGet(image.dict, 'Filter'));
+  const params = resolveValue(doc, dictGet(image.dict, 'DecodeParms'));
+  const filters = (Array.isArray(filter) ? filter : [filter])
+    .map(value => resolveValue(doc, value))
+    .filter((value): value is PdfName => isName(value))
+    .map(value => value.name);
+  const paramList = (Array.isArray(params) ? params : [params]).map(value => resolveDict(doc, value));
+
+  try {
+    const last = filters[filters.length - 1];
+    if (last === 'DCTDecode' || last === 'DCT') {
+      const data = await applyFilters(image.data, filters.slice(0, -1), paramList);
+      return await measureJpegCoverage(data);
+    }
+    // CCITT, JBIG2 and JPEG 2000 scans are not decoded here
+    return measureSampledCoverage(doc, image, await decodeStream(doc, image));
+  } catch (error) {
+    return null;
+  }
+};
+
+const isVisibleString = (value: PdfValue) => isString(value) && value.bytes.some(byte => byte !== 0x20 && byte !== 0);
+
+const isWhiteFill = (operator: string, operands: PdfValue[]) => {
+  if (operator === 'g') return operands[0] === 1;
+  if (operator === 'rg') return operands.every(value => value === 1);
+  if (operator === 'k') return operands.every(value => value === 0);
+  return false;
+};
+
+// Walks a content stream (and the forms it draws) until something visible turns up
+const hasVisibleContent = async (
+  doc: PdfDocument,
+  content: Uint8Array,
+  resources: PdfDict | null,
+  maxCoverage: number,
+  depth: number
+): Promise<boolean> => {
+  const xObjects = resolveDict(doc, dictGet(resources, 'XObject'));
+  const stack: { whiteFill: boolean; invisibleText: boolean }[] = [];
+  let whiteFill = false;
+  let invisibleText = false;
+
+  for (const { operator, operands } of parseContentStream(content)) {
+    switch (operator) {
+      case 'q':
+        stack.push({ whiteFill, invisibleText });
+        break;
+      case 'Q':
+        ({ whiteFill, invisibleText } = stack.pop() ?? { whiteFill, invisibleText });
+        break;
+      case 'g':
+      case 'rg':
+      case 'k':
+      case 'cs':
+      case 'sc':
+      case 'scn':
+        whiteFill = isWhiteFill(operator, operands);
+        break;
+      case 'Tr':
+        // Render mode 3 is the invisible text layer OCR adds on top of scans
+        invisibleText = operands[0] === 3;
+        break;
+      case 'sh':
+      case 'BI':
+        return true;
+      case 'Do': {
+        const name = operands[0];
+        const xObject = isName(name) ? resolveValue(doc, dictGet(xObjects, name.name)) : null;
+        if (!isStream(xObject)) break;
+        const subtype = resolveValue(doc, dictGet(xObject.dict, 'Subtype'));
+        if (isName(subtype, 'Image')) {
+          const coverage = await getImageCoverage(doc, xObject);
+          if (coverage === null || coverage > maxCoverage) return true;
+        } else if (isName(subtype, 'Form')) {
+          if (depth >= MAX_FORM_DEPTH) return true;
+          const formResources = resolveDict(doc, dictGet(xObject.dict, 'Resources')) ?? resources;
+          if (await hasVisibleContent(doc, await decodeStream(doc, xObject), formResources, maxCoverage, depth + 1)) {
+            return true;
+          }
+        }
+        break;
+      }
+      default:
+        if (TEXT_SHOWING.has(operator) && !invisibleText) {
+          const strings = operator === 'TJ' && Array.isArray(operands[0]) ? operands[0] : operands;
+          if (strings.some(isVisibleString)) return true;
+        } else if (PATH_PAINTING.has(operator) && !(whiteFill && FILL_ONLY.has(operator))) {
+          return true;
+        }
+    }
+  }
+  return false;
+};
+
+// 1-based numbers of the pages that look blank. Pages whose content cannot be
+// read, or whose images use an encoding that cannot be measured, are kept as content.
+export const findBlankPages = async (doc: PdfDocument, options: PdfBlankPageOptions = {}): Promise<number[]> => {
+  const maxCoverage = options.maxCoverage ?? 0.01;
+  const blankPages: number[] = [];
+  const pages = getPages(doc);
+
+  for (let i = 0; i < pages.length; i++) {
+    try {
+      const content = await getPageContents(doc, pages[i]);
+      const resources = resolveDict(doc, getPageAttribute(pages[i], 'Resources'));
+      if (!(await hasVisibleContent(doc, content, resources, maxCoverage, 0))) blankPages.push(i + 1);
+    } catch (error) {
+      console.warn(`Could not inspect page ${i + 1}:`, error);
+    }
+  }
+  return blankPages;
+};
+
+// Cuts the pages into parts at the blank pages; a run of blank pages makes one cut.
+// Kept blank pages stay at the end of the part before them.
+export const splitAtBlankPages = (pageCount: number, blankPages: number[], removeBlankPages: boolean): number[][] => {
+  const blank = new Set(blankPages);
+  const parts: number[][] = [];
+  let current: number[] = [];
+
+  for (let page = 1; page <= pageCount; page++) {
+    if (blank.has(page)) {
+      if (!removeBlankPages) current.push(page);
+      continue;
+    }
+    // The first content page after a blank starts a new part
+    if (blank.has(page - 1) && current.some(number => !blank.has(number))) {
+      parts.push(current);
+      current = [];
+    }
+    current.push(page);
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+};
@@ -0,0 +1,551 @@
+import { PdfRef, PdfValue, pdfDict, pdfName, pdfStream } from "@/utils/pdfObjects";
+import { applyFilters, deflate } from "@/utils/pdfFilters";
+import { PdfWriter, addObject, allocateRef, createPdfWriter, finishPdf } from "@/utils/pdfWriter";
+import {
+  LETTER_SIZE,
+  PdfFonts,
+  PdfTextBlock,
+  addPage,
+  addStandardFonts,
+  getFontResources,
+  layoutTextBlocks,
+  showText,
+  wrapText,
+} from "@/utils/pdfLayout";
+import {
+  OoxmlPackage,
+  RELATIONSHIPS_NS,
+  getMainPartName,
+  loadPackage,
+  readRelationships,
+  readXmlPart,
+} from "@/utils/ooxmlPackage";
+import { readZipEntry } from "@/utils/zipUtils";
+
+// Converts documents and images to PDF so that different formats can be merged.
+// Office and HTML documents are re-flowed as text with their headings, lists and
+// tables; slides keep the position of their text boxes and pictures.
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+
+// 1 pt = 12700 EMU = 20 twips
+const EMU_PER_POINT = 12700;
+const TWIPS_PER_POINT = 20;
+
+const TEXT_EXTENSIONS = ['txt', 'csv', 'md', 'log'];
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png'];
+const CONVERTIBLE_EXTENSIONS = ['pdf', ...TEXT_EXTENSIONS, ...IMAGE_EXTENSIONS, 'docx', 'pptx', 'html', 'htm'];
+
+interface PdfImage {
+  ref: PdfRef;
+  width: number;
+  height: number;
+}
+
+const getExtension = (name: string) => name.split('.').pop()?.toLowerCase() ?? '';
+
+export const canConvertToPdf = (fileName: string) => CONVERTIBLE_EXTENSIONS.includes(getExtension(fileName));
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// JPEG data is embedded as-is; only the frame header is read for the dimensions
+const embedJpeg = (writer: PdfWriter, bytes: Uint8Array): PdfImage => {
+  let offset = 2;
+  let adobe = false;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xee) adobe = true;
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      const width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+      const components = bytes[offset + 9];
+      const colorSpace = components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+      const dict = pdfDict({
+        Type: pdfName('XObject'),
+        Subtype: pdfName('Image'),
+        Width: width,
+        Height: height,
+        ColorSpace: pdfName(colorSpace),
+        BitsPerComponent: 8,
+        Filter: pdfName('DCTDecode'),
+      });
+      // Adobe CMYK JPEGs are stored inverted
+      if (components === 4 && adobe) dict.entries.set('Decode', [1, 0, 1, 0, 1, 0, 1, 0]);
+      return { ref: addObject(writer, pdfStream(dict, bytes)), width, height };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('Unreadable JPEG image');
+};
+
+// PNG pixel data is already a zlib stream with PNG predictors, so opaque images
+// are embedded without decoding; an alpha channel is split off into a soft mask
+const embedPng = async (writer: PdfWriter, bytes: Uint8Array): Promise<PdfImage> => {
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  const data: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const chunk = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = readUint32(chunk, 0);
+      height = readUint32(chunk, 4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new Error('Interlaced PNG images are not supported');
+      }
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'IDAT') {
+      data.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const compressed = new Uint8Array(data.reduce((sum, chunk) => sum + chunk.length, 0));
+  data.reduce((offset, chunk) => (compressed.set(chunk, offset), offset + chunk.length), 0);
+
+  const channels = [1, 0, 3, 1, 2, 0, 4][colorType] ?? 0;
+  if (!width || !height || channels === 0) {
+    throw new Error('Unreadable PNG image');
+  }
+  const params = pdfDict({ Predictor: 15, Colors: channels, BitsPerComponent: bitDepth, Columns: width });
+  const image = (colorSpace: PdfValue, streamData: Uint8Array, decodeParms: PdfValue, smask?: PdfRef) => {
+    const dict = pdfDict({
+      Type: pdfName('XObject'),
+      Subtype: pdfName('Image'),
+      Width: width,
+      Height: height,
+      ColorSpace: colorSpace,
+      BitsPerComponent: bitDepth,
+      Filter: pdfName('FlateDecode'),
+    });
+    if (decodeParms) dict.entries.set('DecodeParms', decodeParms);
+    if (smask) dict.entries.set('SMask', smask);
+    return addObject(writer, pdfStream(dict, streamData));
+  };
+
+  if (colorType === 0 || colorType === 2 || colorType === 3) {
+    const colorSpace = colorType === 0
+      ? pdfName('DeviceGray')
+      : colorType === 2
+        ? pdfName('DeviceRGB')
+        : [pdfName('Indexed'), pdfName('DeviceRGB'), (palette?.length ?? 3) / 3 - 1, { kind: 'string' as const, bytes: palette ?? new Uint8Array(3), hex: true }];
+    return { ref: image(colorSpace, compressed, params), width, height };
+  }
+
+  // Gray + alpha or RGB + alpha: separate the samples
+  const pixels = await applyFilters(compressed, ['FlateDecode'], [params]);
+  const sampleSize = bitDepth / 8;
+  const colors = channels - 1;
+  const color = new Uint8Array(width * height * colors * sampleSize);
+  const alpha = new Uint8Array(width * height * sampleSize);
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const source = pixel * channels * sampleSize;
+    color.set(pixels.subarray(source, source + colors * sampleSize), pixel * colors * sampleSize);
+    alpha.set(pixels.subarray(source + colors * sampleSize, source + channels * sampleSize), pixel * sampleSize);
+  }
+  const mask = image(pdfName('DeviceGray'), await deflate(alpha), null);
+  const colorSpace = pdfName(colors === 1 ? 'DeviceGray' : 'DeviceRGB');
+  return { ref: image(colorSpace, await deflate(color), null, mask), width, height };
+};
+
+const embedImage = async (writer: PdfWriter, bytes: Uint8Array): Promise<PdfImage> => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return embedJpeg(writer, bytes);
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return embedPng(writer, bytes);
+  throw new Error('Only JPEG and PNG images can be converted');
+};
+
+const drawImage = (name: string, x: number, y: number, width: number, height: number) =>
+  `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /${name} Do Q\n`;
+
+const textToPdf = (text: string, title: string): Uint8Array => {
+  const writer = createPdfWriter();
+  const pagesRef = allocateRef(writer);
+  const fonts = addStandardFonts(writer);
+  const blocks = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => ({ text: line.replace(/\t/g, '    '), size: 10, style: 'mono' as const }));
+  const pageRefs = layoutTextBlocks(writer, pagesRef, fonts, blocks);
+  return finishPdf(writer, pagesRef, pageRefs, { title });
+};
+
+// One image per page, scaled down to fit a Letter page in the image's orientation
+const imageToPdf = async (bytes: Uint8Array, title: string): Promise<Uint8Array> => {
+  const writer = createPdfWriter();
+  const pagesRef = allocateRef(writer);
+  const image = await embedImage(writer, bytes);
+  const [pageWidth, pageHeight] = image.width > image.height ? [LETTER_SIZE[1], LETTER_SIZE[0]] : LETTER_SIZE;
+  const margin = 36;
+  const scale = Math.min(1, (pageWidth - 2 * margin) / image.width, (pageHeight - 2 * margin) / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const content = drawImage('Im1', (pageWidth - width) / 2, (pageHeight - height) / 2, width, height);
+  const pageRef = addPage(writer, pagesRef, [pageWidth, pageHeight], content, pdfDict({ XObject: pdfDict({ Im1: image.ref }) }));
+  return finishPdf(writer, pagesRef, [pageRef], { title });
+};
+
+const getW = (element: Element, name: string) => element.getAttributeNS(W_NS, name);
+
+const childElements = (parent: Element, namespace: string, localName: string) =>
+  Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (node as Element).namespaceURI === namespace && (node as Element).localName === localName
+  );
+
+// Text of a Word paragraph, skipping deleted revisions and field instructions
+const getWordText = (paragraph: Element) => {
+  let text = '';
+  const visit = (node: Element) => {
+    if (node.namespaceURI === W_NS) {
+      switch (node.localName) {
+        case 't':
+          text += node.textContent ?? '';
+          return;
+        case 'tab':
+          if (node.parentNode && (node.parentNode as Element).localName === 'r') text += '    ';
+          return;
+        case 'br':
+        case 'cr':
+          if (getW(node, 'type') !== 'page') text += '\n';
+          return;
+        case 'noBreakHyphen':
+          text += '-';
+          return;
+        case 'del':
+        case 'instrText':
+        case 'pPr':
+        case 'rPr':
+          return;
+      }
+    }
+    Array.from(node.childNodes).forEach(child => child.nodeType === 1 && visit(child as Element));
+  };
+  visit(paragraph);
+  return text;
+};
+
+const docxToPdf = async (pkg: OoxmlPackage, title: string): Promise<Uint8Array> => {
+  const mainName = await getMainPartName(pkg);
+  const document = await readXmlPart(pkg, mainName);
+  const body = document?.getElementsByTagNameNS(W_NS, 'body')[0];
+  if (!body) {
+    throw new Error('Missing document body');
+  }
+
+  // Heading levels come from the style's outline level or its built-in name
+  const headingLevels = new Map<string, number>();
+  const stylesRel = (await readRelationships(pkg, mainName)).find(rel => rel.type === 'styles');
+  const styles = stylesRel ? await readXmlPart(pkg, stylesRel.target) : null;
+  for (const style of Array.from(styles?.getElementsByTagNameNS(W_NS, 'style') ?? [])) {
+    const name = style.getElementsByTagNameNS(W_NS, 'name')[0];
+    const outline = style.getElementsByTagNameNS(W_NS, 'outlineLvl')[0];
+    const styleName = (name && getW(name, 'val')?.toLowerCase()) || '';
+    const level = styleName === 'title' ? 0 : outline ? parseInt(getW(outline, 'val') || '9', 10) + 1 : parseInt(styleName.match(/^heading (\d)$/)?.[1] ?? '', 10);
+    if (!isNaN(level) && level <= 6) headingLevels.set(getW(style, 'styleId') || '', level);
+  }
+
+  const blocks: PdfTextBlock[] = [];
+  let breakBefore = false;
+  const addParagraph = (paragraph: Element) => {
+    const pPr = childElements(paragraph, W_NS, 'pPr')[0];
+    const styleId = pPr && childElements(pPr, W_NS, 'pStyle')[0];
+    const level = styleId ? headingLevels.get(getW(styleId, 'val') || '') : undefined;
+    const numPr = pPr && childElements(pPr, W_NS, 'numPr')[0];
+    const ilvl = numPr && childElements(numPr, W_NS, 'ilvl')[0];
+    const listLevel = numPr ? parseInt((ilvl && getW(ilvl, 'val')) || '0', 10) : -1;
+    const text = getWordText(paragraph);
+
+    blocks.push({
+      text: listLevel >= 0 ? `•  ${text}` : text,
+      size: level === undefined ? 11 : [24, 18, 15, 13, 12, 11, 11][level],
+      style: level === undefined ? 'regular' : 'bold',
+      spaceBefore: level === undefined ? 4 : 12,
+      indent: listLevel >= 0 ? 18 * (listLevel + 1) : 0,
+      pageBreakBefore: breakBefore || (pPr ? childElements(pPr, W_NS, 'pageBreakBefore').some(e => getW(e, 'val') !== '0' && getW(e, 'val') !== 'false') : false),
+    });
+
+    // Explicit page breaks and non-continuous section ends start the next block on a new page
+    const sectPr = pPr && childElements(pPr, W_NS, 'sectPr')[0];
+    const sectionType = sectPr && childElements(sectPr, W_NS, 'type')[0];
+    breakBefore = Array.from(paragraph.getElementsByTagNameNS(W_NS, 'br')).some(br => getW(br, 'type') === 'page') ||
+      (!!sectPr && (!sectionType || getW(sectionType, 'val') !== 'continuous'));
+  };
+
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.childNodes)) {
+      if (child.nodeType !== 1 || (child as Element).namespaceURI !== W_NS) continue;
+      const node = child as Element;
+      if (node.localName === 'p') {
+        addParagraph(node);
+      } else if (node.localName === 'tbl') {
+        for (const row of childElements(node, W_NS, 'tr')) {
+          const cells = childElements(row, W_NS, 'tc').map(cell =>
+            childElements(cell, W_NS, 'p').map(getWordText).join(' ').trim()
+          );
+          blocks.push({ text: cells.join('  |  '), spaceBefore: 2, pageBreakBefore: breakBefore });
+          breakBefore = false;
+        }
+      } else if (node.localName === 'sdt') {
+        childElements(node, W_NS, 'sdtContent').forEach(visit);
+      }
+    }
+  };
+  visit(body);
+
+  const sectPr = childElements(body, W_NS, 'sectPr')[0];
+  const pgSz = sectPr && childElements(sectPr, W_NS, 'pgSz')[0];
+  const pgMar = sectPr && childElements(sectPr, W_NS, 'pgMar')[0];
+  const pageSize: [number, number] = pgSz
+    ? [parseInt(getW(pgSz, 'w') || '12240', 10) / TWIPS_PER_POINT, parseInt(getW(pgSz, 'h') || '15840', 10) / TWIPS_PER_POINT]
+    : LETTER_SIZE;
+  const margin = pgMar ? Math.min(parseInt(getW(pgMar, 'left') || '1440', 10), parseInt(getW(pgMar, 'top') || '1440', 10)) / TWIPS_PER_POINT : 72;
+
+  const writer = createPdfWriter();
+  const pagesRef = allocateRef(writer);
+  const fonts = addStandardFonts(writer);
+  const pageRefs = layoutTextBlocks(writer, pagesRef, fonts, blocks, { pageSize, margin });
+  return finishPdf(writer, pagesRef, pageRefs, { title });
+};
+
+interface SlideBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Maps a shape's a:xfrm through the enclosing group transforms into slide points
+type SlideTransform = (box: SlideBox) => SlideBox;
+
+const readXfrm = (parent: Element | undefined): SlideBox | null => {
+  // Graphic frames carry a p:xfrm instead of a nested a:xfrm
+  const xfrm = parent?.localName === 'xfrm' ? parent : parent?.getElementsByTagNameNS(A_NS, 'xfrm')[0];
+  const off = xfrm && childElements(xfrm, A_NS, 'off')[0];
+  const ext = xfrm && childElements(xfrm, A_NS, 'ext')[0];
+  if (!off || !ext) return null;
+  return {
+    x: parseInt(off.getAttribute('x') || '0', 10) / EMU_PER_POINT,
+    y: parseInt(off.getAttribute('y') || '0', 10) / EMU_PER_POINT,
+    width: parseInt(ext.getAttribute('cx') || '0', 10) / EMU_PER_POINT,
+    height: parseInt(ext.getAttribute('cy') || '0', 10) / EMU_PER_POINT,
+  };
+};
+
+const getPlaceholder = (shape: Element) => {
+  const ph = shape.getElementsByTagNameNS(P_NS, 'ph')[0];
+  if (!ph) return null;
+  const type = ph.getAttribute('type') || 'body';
+  return { type: type === 'ctrTitle' ? 'title' : type, idx: ph.getAttribute('idx') || '' };
+};
+
+// Placeholder positions a slide inherits from its layout and master
+const readPlaceholderBoxes = async (pkg: OoxmlPackage, partName: string, boxes: Map<string, SlideBox>) => {
+  const part = await readXmlPart(pkg, partName);
+  for (const shape of Array.from(part?.getElementsByTagNameNS(P_NS, 'sp') ?? [])) {
+    const placeholder = getPlaceholder(shape);
+    const box = readXfrm(childElements(shape, P_NS, 'spPr')[0]);
+    if (!placeholder || !box) continue;
+    if (placeholder.idx && !boxes.has(`idx:${placeholder.idx}`)) boxes.set(`idx:${placeholder.idx}`, box);
+    if (!boxes.has(`type:${placeholder.type}`)) boxes.set(`type:${placeholder.type}`, box);
+  }
+};
+
+const pptxToPdf = async (pkg: OoxmlPackage, title: string): Promise<Uint8Array> => {
+  const mainName = await getMainPartName(pkg);
+  const presentation = await readXmlPart(pkg, mainName);
+  if (!presentation) {
+    throw new Error(`Missing ${mainName}`);
+  }
+  const sldSz = presentation.getElementsByTagNameNS(P_NS, 'sldSz')[0];
+  const pageWidth = parseInt(sldSz?.getAttribute('cx') || '9144000', 10) / EMU_PER_POINT;
+  const pageHeight = parseInt(sldSz?.getAttribute('cy') || '6858000', 10) / EMU_PER_POINT;
+
+  const writer = createPdfWriter();
+  const pagesRef = allocateRef(writer);
+  const fonts: PdfFonts = addStandardFonts(writer);
+  const pageRefs: PdfRef[] = [];
+
+  const rels = new Map((await readRelationships(pkg, mainName)).map(rel => [rel.id, rel]));
+  const slideIds = Array.from(presentation.getElementsByTagNameNS(P_NS, 'sldId'));
+  for (const slideId of slideIds) {
+    const slideName = rels.get(slideId.getAttributeNS(RELATIONSHIPS_NS, 'id') || '')?.target;
+    const slide = slideName ? await readXmlPart(pkg, slideName) : null;
+    const spTree = slide?.getElementsByTagNameNS(P_NS, 'spTree')[0];
+    if (!slideName || !spTree) continue;
+
+    const slideRels = await readRelationships(pkg, slideName);
+    const placeholders = new Map<string, SlideBox>();
+    const layout = slideRels.find(rel => rel.type === 'slideLayout');
+    if (layout) {
+      await readPlaceholderBoxes(pkg, layout.target, placeholders);
+      const master = (await readRelationships(pkg, layout.target)).find(rel => rel.type === 'slideMaster');
+      if (master) await readPlaceholderBoxes(pkg, master.target, placeholders);
+    }
+
+    const xObjects = pdfDict();
+    let content = '';
+
+    const drawText = (shape: Element, box: SlideBox, placeholderType: string | undefined) => {
+      const txBody = shape.getElementsByTagNameNS(P_NS, 'txBody')[0] ?? shape.getElementsByTagNameNS(A_NS, 'tbl')[0];
+      if (!txBody) return;
+      const inset = 7.2;
+      let y = pageHeight - box.y - inset;
+      for (const paragraph of Array.from(txBody.getElementsByTagNameNS(A_NS, 'p'))) {
+        const runProps = paragraph.getElementsByTagNameNS(A_NS, 'rPr')[0] ?? paragraph.getElementsByTagNameNS(A_NS, 'endParaRPr')[0];
+        const size = runProps?.getAttribute('sz')
+          ? parseInt(runProps.getAttribute('sz') || '1800', 10) / 100
+          : placeholderType === 'title' ? 32 : 18;
+        const style = runProps?.getAttribute('b') === '1' || placeholderType === 'title' ? 'bold' : 'regular';
+        let text = '';
+        for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+          if (node.namespaceURI !== A_NS) continue;
+          if (node.localName === 't') text += node.textContent ?? '';
+          else if (node.localName === 'br') text += '\n';
+        }
+        for (const line of wrapText(text, Math.max(box.width - 2 * inset, size), size, style)) {
+          y -= size * 1.2;
+          if (line) content += showText(line, box.x + inset, y + size * 0.2, size, style);
+        }
+      }
+    };
+
+    const visitTree = async (tree: Element, transform: SlideTransform) => {
+      for (const child of Array.from(tree.childNodes)) {
+        if (child.nodeType !== 1 || (child as Element).namespaceURI !== P_NS) continue;
+        const shape = child as Element;
+        if (shape.localName === 'sp' || shape.localName === 'graphicFrame') {
+          const placeholder = getPlaceholder(shape);
+          const ownBox = readXfrm(childElements(shape, P_NS, shape.localName === 'sp' ? 'spPr' : 'xfrm')[0]);
+          const box = ownBox ? transform(ownBox) : placeholder
+            ? placeholders.get(`idx:${placeholder.idx}`) ?? placeholders.get(`type:${placeholder.type}`)
+            : undefined;
+          if (box) drawText(shape, box, placeholder?.type);
+        } else if (shape.localName === 'pic') {
+          const blip = shape.getElementsByTagNameNS(A_NS, 'blip')[0];
+          const rel = slideRels.find(r => r.id === blip?.getAttributeNS(RELATIONSHIPS_NS, 'embed'));
+          const entry = rel && !rel.external ? pkg.parts.get(rel.target) : undefined;
+          const ownBox = readXfrm(childElements(shape, P_NS, 'spPr')[0]);
+          if (!entry || !ownBox) continue;
+          try {
+            const image = await embedImage(writer, entry instanceof Uint8Array ? entry : await readZipEntry(entry));
+            const name = `Im${xObjects.entries.size + 1}`;
+            xObjects.entries.set(name, image.ref);
+            const box = transform(ownBox);
+            content += drawImage(name, box.x, pageHeight - box.y - box.height, box.width, box.height);
+          } catch (error) {
+            // Vector formats such as EMF have no PDF equivalent here
+            console.warn(`Skipping picture ${rel?.target}:`, error);
+          }
+        } else if (shape.localName === 'grpSp') {
+          const grpSpPr = childElements(shape, P_NS, 'grpSpPr')[0];
+          const xfrm = grpSpPr?.getElementsByTagNameNS(A_NS, 'xfrm')[0];
+          const chOff = xfrm && childElements(xfrm, A_NS, 'chOff')[0];
+          const chExt = xfrm && childElements(xfrm, A_NS, 'chExt')[0];
+          const outer = readXfrm(grpSpPr);
+          if (!outer || !chOff || !chExt) {
+            await visitTree(shape, transform);
+            continue;
+          }
+          const childX = parseInt(chOff.getAttribute('x') || '0', 10) / EMU_PER_POINT;
+          const childY = parseInt(chOff.getAttribute('y') || '0', 10) / EMU_PER_POINT;
+          const scaleX = outer.width / (parseInt(chExt.getAttribute('cx') || '0', 10) / EMU_PER_POINT || outer.width || 1);
+          const scaleY = outer.height / (parseInt(chExt.getAttribute('cy') || '0', 10) / EMU_PER_POINT || outer.height || 1);
+          await visitTree(shape, box => transform({
+            x: outer.x + (box.x - childX) * scaleX,
+            y: outer.y + (box.y - childY) * scaleY,
+            width: box.width * scaleX,
+            height: box.height * scaleY,
+          }));
+        }
+      }
+    };
+    await visitTree(spTree, box => box);
+
+    const resources = getFontResources(fonts);
+    if (xObjects.entries.size > 0) resources.entries.set('XObject', xObjects);
+    pageRefs.push(addPage(writer, pagesRef, [pageWidth, pageHeight], content, resources));
+  }
+
+  if (pageRefs.length === 0) {
+    throw new Error('The presentation does not contain any slides');
+  }
+  return finishPdf(writer, pagesRef, pageRefs, { title });
+};
+
+const htmlToPdf = (html: string, title: string): Uint8Array => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const blocks: PdfTextBlock[] = [];
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      const tag = child.tagName.toLowerCase();
+      if (['script', 'style', 'head', 'template'].includes(tag)) continue;
+      const heading = tag.match(/^h([1-6])$/);
+      if (heading || ['p', 'li', 'pre', 'tr', 'blockquote', 'dt', 'dd'].includes(tag)) {
+        const text = tag === 'tr'
+          ? Array.from(child.children).map(cell => cell.textContent?.trim() ?? '').join('  |  ')
+          : tag === 'pre' ? child.textContent ?? '' : (child.textContent ?? '').replace(/\s+/g, ' ').trim();
+        const level = heading ? parseInt(heading[1], 10) : 0;
+        blocks.push({
+          text: tag === 'li' ? `•  ${text}` : text,
+          size: heading ? [0, 22, 18, 15, 13, 12, 11][level] : 11,
+          style: heading ? 'bold' : tag === 'pre' ? 'mono' : 'regular',
+          spaceBefore: heading ? 12 : 6,
+          indent: tag === 'li' || tag === 'blockquote' || tag === 'dd' ? 18 : 0,
+        });
+      } else {
+        visit(child);
+      }
+    }
+  };
+  if (doc.body) visit(doc.body);
+
+  const writer = createPdfWriter();
+  const pagesRef = allocateRef(writer);
+  const fonts = addStandardFonts(writer);
+  const pageRefs = layoutTextBlocks(writer, pagesRef, fonts, blocks);
+  return finishPdf(writer, pagesRef, pageRefs, { title: doc.title || title });
+};
+
+// Converts a supported file to PDF bytes; PDFs are returned unchanged
+export const convertToPdf = async (file: File): Promise<Uint8Array> => {
+  const extension = getExtension(file.name);
+  const title = file.name.replace(/\.[^.]+$/, '');
+
+  if (extension === 'pdf') {
+    return new Uint8Array(await file.arrayBuffer());
+  }
+  if (TEXT_EXTENSIONS.includes(extension)) {
+    return textToPdf(await file.text(), title);
+  }
+  if (IMAGE_EXTENSIONS.includes(extension)) {
+    return imageToPdf(new Uint8Array(await file.arrayBuffer()), title);
+  }
+  if (extension === 'docx') {
+    return docxToPdf(await loadPackage(await file.arrayBuffer()), title);
+  }
+  if (extension === 'pptx') {
+    return pptxToPdf(await loadPackage(await file.arrayBuffer()), title);
+  }
+  if (extension === 'html' || extension === 'htm') {
+    return htmlToPdf(await file.text(), title);
+  }
+  throw new Error(`Converting .${extension} files to PDF is not supported`);
+};
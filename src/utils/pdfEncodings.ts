@@ -0,0 +1,133 @@
+import { WIN_ANSI_HIGH } from "@/utils/pdfLayout";
+
+// The single-byte encodings of simple fonts (PDF 32000 annex D) and the glyph
+// names used by /Differences arrays, mapped to Unicode.
+
+export type PdfEncodingName = 'WinAnsiEncoding' | 'MacRomanEncoding' | 'StandardEncoding';
+
+// Glyph names of the printable ASCII range, 0x20-0x7E
+const ASCII_NAMES = [
+  'space', 'exclam', 'quotedbl', 'numbersign', 'dollar', 'percent', 'ampersand', 'quotesingle',
+  'parenleft', 'parenright', 'asterisk', 'plus', 'comma', 'hyphen', 'period', 'slash',
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'colon', 'semicolon', 'less', 'equal', 'greater', 'question', 'at',
+  ...'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  'bracketleft', 'backslash', 'bracketright', 'asciicircum', 'underscore', 'grave',
+  ...'abcdefghijklmnopqrstuvwxyz',
+  'braceleft', 'bar', 'braceright', 'asciitilde',
+];
+
+// Glyph names of WinAnsiEncoding 0x80-0x9F, empty where the code is unused
+const WIN_ANSI_HIGH_NAMES = [
+  'Euro', '', 'quotesinglbase', 'florin', 'quotedblbase', 'ellipsis', 'dagger', 'daggerdbl',
+  'circumflex', 'perthousand', 'Scaron', 'guilsinglleft', 'OE', '', 'Zcaron', '',
+  '', 'quoteleft', 'quoteright', 'quotedblleft', 'quotedblright', 'bullet', 'endash', 'emdash',
+  'tilde', 'trademark', 'scaron', 'guilsinglright', 'oe', '', 'zcaron', 'Ydieresis',
+];
+
+// Glyph names of Latin-1 0xA0-0xFF
+const LATIN1_NAMES = [
+  'nbspace', 'exclamdown', 'cent', 'sterling', 'currency', 'yen', 'brokenbar', 'section',
+  'dieresis', 'copyright', 'ordfeminine', 'guillemotleft', 'logicalnot', 'sfthyphen', 'registered', 'macron',
+  'degree', 'plusminus', 'twosuperior', 'threesuperior', 'acute', 'mu', 'paragraph', 'periodcentered',
+  'cedilla', 'onesuperior', 'ordmasculine', 'guillemotright', 'onequarter', 'onehalf', 'threequarters', 'questiondown',
+  'Agrave', 'Aacute', 'Acircumflex', 'Atilde', 'Adieresis', 'Aring', 'AE', 'Ccedilla',
+  'Egrave', 'Eacute', 'Ecircumflex', 'Edieresis', 'Igrave', 'Iacute', 'Icircumflex', 'Idieresis',
+  'Eth', 'Ntilde', 'Ograve', 'Oacute', 'Ocircumflex', 'Otilde', 'Odieresis', 'multiply',
+  'Oslash', 'Ugrave', 'Uacute', 'Ucircumflex', 'Udieresis', 'Yacute', 'Thorn', 'germandbls',
+  'agrave', 'aacute', 'acircumflex', 'atilde', 'adieresis', 'aring', 'ae', 'ccedilla',
+  'egrave', 'eacute', 'ecircumflex', 'edieresis', 'igrave', 'iacute', 'icircumflex', 'idieresis',
+  'eth', 'ntilde', 'ograve', 'oacute', 'ocircumflex', 'otilde', 'odieresis', 'divide',
+  'oslash', 'ugrave', 'uacute', 'ucircumflex', 'udieresis', 'yacute', 'thorn', 'ydieresis',
+];
+
+// Names outside WinAnsi that the other standard encodings and common fonts use
+const OTHER_GLYPHS: Record<string, string> = {
+  fraction: '⁄', fi: 'ﬁ', fl: 'ﬂ', ff: 'ﬀ', ffi: 'ﬃ', ffl: 'ﬄ', dotlessi: 'ı', Lslash: 'Ł', lslash: 'ł',
+  breve: '˘', dotaccent: '˙', ring: '˚', hungarumlaut: '˝', ogonek: '˛', caron: 'ˇ', minus: '−',
+  notequal: '≠', infinity: '∞', lessequal: '≤', greaterequal: '≥', partialdiff: '∂', summation: '∑',
+  product: '∏', pi: 'π', integral: '∫', Omega: 'Ω', radical: '√', approxequal: '≈', Delta: '∆',
+  lozenge: '◊', nonbreakingspace: '\u00a0', middot: '·', periodcentered: '·',
+};
+
+// StandardEncoding codes that differ from ASCII, and its upper half
+const STANDARD_CODES: Record<number, string> = {
+  0x27: 'quoteright', 0x60: 'quoteleft', 0xa1: 'exclamdown', 0xa2: 'cent', 0xa3: 'sterling', 0xa4: 'fraction',
+  0xa5: 'yen', 0xa6: 'florin', 0xa7: 'section', 0xa8: 'currency', 0xa9: 'quotesingle', 0xaa: 'quotedblleft',
+  0xab: 'guillemotleft', 0xac: 'guilsinglleft', 0xad: 'guilsinglright', 0xae: 'fi', 0xaf: 'fl', 0xb1: 'endash',
+  0xb2: 'dagger', 0xb3: 'daggerdbl', 0xb4: 'periodcentered', 0xb6: 'paragraph', 0xb7: 'bullet',
+  0xb8: 'quotesinglbase', 0xb9: 'quotedblbase', 0xba: 'quotedblright', 0xbb: 'guillemotright', 0xbc: 'ellipsis',
+  0xbd: 'perthousand', 0xbf: 'questiondown', 0xc1: 'grave', 0xc2: 'acute', 0xc3: 'circumflex', 0xc4: 'tilde',
+  0xc5: 'macron', 0xc6: 'breve', 0xc7: 'dotaccent', 0xc8: 'dieresis', 0xca: 'ring', 0xcb: 'cedilla',
+  0xcd: 'hungarumlaut', 0xce: 'ogonek', 0xcf: 'caron', 0xd0: 'emdash', 0xe1: 'AE', 0xe3: 'ordfeminine',
+  0xe8: 'Lslash', 0xe9: 'Oslash', 0xea: 'OE', 0xeb: 'ordmasculine', 0xf1: 'ae', 0xf5: 'dotlessi',
+  0xf8: 'lslash', 0xf9: 'oslash', 0xfa: 'oe', 0xfb: 'germandbls',
+};
+
+// MacRomanEncoding 0x80-0xFF as the PDF specification defines it (0xDB is the
+// currency sign, 0xF0 is unused)
+const MAC_ROMAN_HIGH =
+  'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü' +
+  '†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø' +
+  '¿¡¬√ƒ≈∆«»…\u00a0ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄¤‹›ﬁﬂ' +
+  '‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔ\ufffdÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+const glyphs = new Map<string, string>();
+ASCII_NAMES.forEach((name, index) => glyphs.set(name, String.fromCharCode(0x20 + index)));
+WIN_ANSI_HIGH_NAMES.forEach((name, index) => {
+  if (name) glyphs.set(name, WIN_ANSI_HIGH[index]);
+});
+LATIN1_NAMES.forEach((name, index) => glyphs.set(name, String.fromCharCode(0xa0 + index)));
+Object.entries(OTHER_GLYPHS).forEach(([name, text]) => glyphs.set(name, text));
+
+// Unicode for a glyph name: known names, uniXXXX and uXXXX[XX] forms, and
+// ligatures (f_f_i) or variants (a.sc) of those
+export const glyphNameToUnicode = (name: string): string | undefined => {
+  const known = glyphs.get(name);
+  if (known) return known;
+
+  const uni = name.match(/^uni((?:[0-9A-F]{4})+)$/);
+  if (uni) return String.fromCharCode(...uni[1].match(/.{4}/g)!.map(hex => parseInt(hex, 16)));
+  const single = name.match(/^u([0-9A-F]{4,6})$/);
+  if (single) {
+    const code = parseInt(single[1], 16);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : undefined;
+  }
+
+  const base = name.split('.')[0];
+  if (base !== name && base) return glyphNameToUnicode(base);
+  if (name.includes('_')) {
+    const parts = name.split('_').map(glyphNameToUnicode);
+    return parts.every(Boolean) ? parts.join('') : undefined;
+  }
+  return undefined;
+};
+
+const tables = new Map<PdfEncodingName, (string | undefined)[]>();
+
+// Unicode text of each code 0-255 in a standard encoding
+export const getEncodingTable = (name: PdfEncodingName): (string | undefined)[] => {
+  const cached = tables.get(name);
+  if (cached) return cached;
+
+  const table: (string | undefined)[] = new Array(256).fill(undefined);
+  for (let code = 0x20; code < 0x7f; code++) table[code] = String.fromCharCode(code);
+  switch (name) {
+    case 'WinAnsiEncoding':
+      for (let code = 0x80; code < 0xa0; code++) {
+        if (WIN_ANSI_HIGH[code - 0x80] !== '\ufffd') table[code] = WIN_ANSI_HIGH[code - 0x80];
+      }
+      for (let code = 0xa0; code <= 0xff; code++) table[code] = String.fromCharCode(code);
+      break;
+    case 'MacRomanEncoding':
+      for (let code = 0x80; code <= 0xff; code++) {
+        if (MAC_ROMAN_HIGH[code - 0x80] !== '\ufffd') table[code] = MAC_ROMAN_HIGH[code - 0x80];
+      }
+      break;
+    case 'StandardEncoding':
+      for (const [code, glyph] of Object.entries(STANDARD_CODES)) table[Number(code)] = glyphNameToUnicode(glyph);
+      break;
+  }
+  tables.set(name, table);
+  return table;
+};
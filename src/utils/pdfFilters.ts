@@ -0,0 +1,221 @@
+import { PdfDict, dictGet } from "@/utils/pdfObjects";
+
+const concatChunks = (chunks: Uint8Array[]): Uint8Array => {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch (error) {
+    // Truncated or checksum-less streams are common; keep whatever was inflated
+    if (chunks.length === 0) throw error;
+  }
+  return concatChunks(chunks);
+};
+
+// Variable-length LZW codes (9 to 12 bits). With EarlyChange 1, the default,
+// the code length grows one code before the table fills up.
+const lzwDecode = (data: Uint8Array, earlyChange: number): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  let table: Uint8Array[] = [];
+  const resetTable = () => {
+    table = Array.from({ length: 258 }, (_, code) => Uint8Array.of(code));
+  };
+  resetTable();
+
+  let codeLength = 9;
+  let previous: Uint8Array | null = null;
+  let buffer = 0;
+  let bits = 0;
+  for (let i = 0; i < data.length; ) {
+    while (bits < codeLength && i < data.length) {
+      buffer = ((buffer << 8) | data[i++]) & 0xffffff;
+      bits += 8;
+    }
+    if (bits < codeLength) break;
+    const code = (buffer >> (bits - codeLength)) & ((1 << codeLength) - 1);
+    bits -= codeLength;
+
+    if (code === 256) {
+      resetTable();
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+    if (code === 257) break;
+
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+    } else if (code === table.length && previous) {
+      entry = new Uint8Array(previous.length + 1);
+      entry.set(previous);
+      entry[previous.length] = previous[0];
+    } else {
+      // A code that cannot occur yet: keep what was decoded so far
+      break;
+    }
+    chunks.push(entry);
+
+    if (previous && table.length < 4096) {
+      const added = new Uint8Array(previous.length + 1);
+      added.set(previous);
+      added[previous.length] = entry[0];
+      table.push(added);
+    }
+    previous = entry;
+    if (table.length + earlyChange >= 1 << codeLength && codeLength < 12) codeLength++;
+  }
+  return concatChunks(chunks);
+};
+
+// Groups of five characters from ! to u encode four bytes; z stands for four zeros
+const ascii85Decode = (data: Uint8Array): Uint8Array => {
+  const output: number[] = [];
+  const group: number[] = [];
+  let start = 0;
+  if (data[0] === 0x3c && data[1] === 0x7e) start = 2; // <~
+
+  const flush = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < 5; i++) value = value * 85 + (i < length ? group[i] : 84);
+    for (let i = 0; i < length - 1; i++) output.push((value >>> (24 - 8 * i)) & 0xff);
+    group.length = 0;
+  };
+
+  for (let i = start; i < data.length; i++) {
+    const byte = data[i];
+    if (byte === 0x7e) break; // ~>
+    if (byte === 0x7a && group.length === 0) {
+      output.push(0, 0, 0, 0);
+    } else if (byte >= 0x21 && byte <= 0x75) {
+      group.push(byte - 0x21);
+      if (group.length === 5) flush(5);
+    }
+  }
+  if (group.length > 1) flush(group.length);
+  return Uint8Array.from(output);
+};
+
+// Pairs of hex digits up to a closing >; an odd last digit is followed by an implied 0
+const asciiHexDecode = (data: Uint8Array): Uint8Array => {
+  const digits = new TextDecoder('latin1').decode(data).split('>')[0].replace(/[^0-9a-fA-F]/g, '');
+  const output = new Uint8Array(Math.ceil(digits.length / 2));
+  for (let i = 0; i < output.length; i++) {
+    output[i] = parseInt(digits.slice(i * 2, i * 2 + 2).padEnd(2, '0'), 16);
+  }
+  return output;
+};
+
+const paethPredictor = (left: number, up: number, upLeft: number) => {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  if (pa <= pb && pa <= pc) return left;
+  if (pb <= pc) return up;
+  return upLeft;
+};
+
+// Undoes the TIFF and PNG predictors described by /DecodeParms
+const applyPredictor = (data: Uint8Array, params: PdfDict | null): Uint8Array => {
+  const predictor = dictGet(params, 'Predictor');
+  if (typeof predictor !== 'number' || predictor < 2) {
+    return data;
+  }
+
+  const colors = (dictGet(params, 'Colors') as number) || 1;
+  const bitsPerComponent = (dictGet(params, 'BitsPerComponent') as number) || 8;
+  const columns = (dictGet(params, 'Columns') as number) || 1;
+  const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+  const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+  if (predictor === 2) {
+    const output = data.slice();
+    for (let row = 0; row + rowLength <= output.length; row += rowLength) {
+      for (let i = bytesPerPixel; i < rowLength; i++) {
+        output[row + i] = (output[row + i] + output[row + i - bytesPerPixel]) & 0xff;
+      }
+    }
+    return output;
+  }
+
+  // PNG predictors prefix every row with its own filter type byte
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const output = new Uint8Array(rows * rowLength);
+  for (let row = 0; row < rows; row++) {
+    const filterType = data[row * (rowLength + 1)];
+    const source = row * (rowLength + 1) + 1;
+    const target = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const raw = data[source + i];
+      const left = i >= bytesPerPixel ? output[target + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[target - rowLength + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[target - rowLength + i - bytesPerPixel] : 0;
+      let value = raw;
+      switch (filterType) {
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: value = raw + paethPredictor(left, up, upLeft); break;
+      }
+      output[target + i] = value & 0xff;
+    }
+  }
+  return output;
+};
+
+// Runs the stream's filter chain in order. Image codecs such as DCTDecode are
+// not decoded here - callers only need content, xref and object stream data.
+export const applyFilters = async (
+  data: Uint8Array,
+  filters: string[],
+  params: (PdfDict | null)[]
+): Promise<Uint8Array> => {
+  let output = data;
+  for (let i = 0; i < filters.length; i++) {
+    switch (filters[i]) {
+      case 'FlateDecode':
+      case 'Fl':
+        output = applyPredictor(await inflate(output), params[i] ?? null);
+        break;
+      case 'LZWDecode':
+      case 'LZW': {
+        const earlyChange = dictGet(params[i] ?? null, 'EarlyChange');
+        output = applyPredictor(lzwDecode(output, typeof earlyChange === 'number' ? earlyChange : 1), params[i] ?? null);
+        break;
+      }
+      case 'ASCII85Decode':
+      case 'A85':
+        output = ascii85Decode(output);
+        break;
+      case 'ASCIIHexDecode':
+      case 'AHx':
+        output = asciiHexDecode(output);
+        break;
+      default:
+        throw new Error(`Unsupported stream filter /${filters[i]}`);
+    }
+  }
+  return output;
+};
+
+// Compresses data for a /FlateDecode stream
+export const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
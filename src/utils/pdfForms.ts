@@ -0,0 +1,190 @@
+import {
+  PdfDict,
+  PdfRef,
+  PdfValue,
+  copyDict,
+  decodePdfString,
+  dictGet,
+  isDict,
+  isName,
+  isRef,
+  pdfDict,
+  pdfString,
+} from "@/utils/pdfObjects";
+import { PdfDocument, getCatalog, resolveDict, resolveValue } from "@/utils/pdfReader";
+import { PdfRefMap, PdfWriter, addObject, importValue } from "@/utils/pdfWriter";
+
+// Interactive form (AcroForm) support for merged documents. Widget annotations
+// travel with their pages; this module rebuilds the form's field list so the
+// fields stay fillable and renames fields whose names would otherwise collide.
+
+export interface PdfMergedForm {
+  fields: PdfRef[];
+  calculationOrder: PdfRef[];
+  defaultAppearance: PdfValue;
+  resources: PdfDict;
+  needAppearances: boolean;
+  sigFlags: number;
+  // Top-level field names already taken in the output
+  names: Set<string>;
+  renamed: { from: string; to: string }[];
+}
+
+export const createMergedForm = (): PdfMergedForm => ({
+  fields: [],
+  calculationOrder: [],
+  defaultAppearance: null,
+  resources: pdfDict(),
+  needAppearances: false,
+  sigFlags: 0,
+  names: new Set(),
+  renamed: [],
+});
+
+const getCopiedDict = (writer: PdfWriter, ref: PdfRef) => {
+  const value = writer.objects[ref.num - 1];
+  return isDict(value) ? value : null;
+};
+
+const getCopiedArray = (writer: PdfWriter, value: PdfValue) => {
+  const array = isRef(value) ? writer.objects[value.num - 1] : value;
+  return Array.isArray(array) ? array : null;
+};
+
+// Annotations on the copied pages, by object number
+const getPlacedAnnotations = (writer: PdfWriter, pageRefs: PdfRef[]) => {
+  const placed = new Map<number, PdfRef>();
+  for (const pageRef of pageRefs) {
+    const annots = getCopiedArray(writer, dictGet(getCopiedDict(writer, pageRef), 'Annots'));
+    annots?.forEach(annot => {
+      if (isRef(annot)) placed.set(annot.num, annot);
+    });
+  }
+  return placed;
+};
+
+// Copying a field copies all of its /Kids, including widgets on pages that were
+// left out. Those are dropped here, along with fields that end up without any.
+const keepPlacedWidgets = (writer: PdfWriter, ref: PdfRef, placed: Map<number, PdfRef>, visited: Set<number>): boolean => {
+  const dict = getCopiedDict(writer, ref);
+  if (!dict || visited.has(ref.num)) return false;
+  visited.add(ref.num);
+
+  const kids = getCopiedArray(writer, dictGet(dict, 'Kids'));
+  if (!kids) return placed.has(ref.num);
+  const kept = kids.filter(kid => isRef(kid) && keepPlacedWidgets(writer, kid, placed, visited));
+  dict.entries.set('Kids', kept);
+  return kept.length > 0;
+};
+
+// Adds the fields of one source document whose widgets were copied along with
+// its pages. Must run after the pages were imported as `pageRefs` with the same refMap.
+// Colliding top-level names get `prefix` in front, e.g. "Name" -> "invoice_Name".
+export const importFormFields = (
+  writer: PdfWriter,
+  doc: PdfDocument,
+  refMap: PdfRefMap,
+  pageRefs: PdfRef[],
+  form: PdfMergedForm,
+  prefix: string
+) => {
+  const acroForm = resolveDict(doc, dictGet(getCatalog(doc), 'AcroForm'));
+  const fields = resolveValue(doc, dictGet(acroForm, 'Fields'));
+  if (!acroForm || !Array.isArray(fields)) return;
+
+  const defaultAppearance = resolveValue(doc, dictGet(acroForm, 'DA'));
+  if (form.defaultAppearance === null && defaultAppearance !== null) {
+    form.defaultAppearance = importValue(writer, doc, defaultAppearance, refMap);
+  }
+
+  // Resource names keep the first document's meaning; fields only look
+  // them up through their /DA strings
+  const resources = resolveDict(doc, dictGet(acroForm, 'DR'));
+  if (resources) {
+    (importValue(writer, doc, resources, refMap) as PdfDict).entries.forEach((value, key) => {
+      // Categories are inlined so later documents can add to them without
+      // touching the objects copied from an earlier one
+      const category = isRef(value) ? getCopiedDict(writer, value) : value;
+      const existing = form.resources.entries.get(key);
+      if (!existing) {
+        form.resources.entries.set(key, isDict(category) ? copyDict(category) : value);
+      } else if (isDict(existing) && isDict(category)) {
+        category.entries.forEach((entry, name) => {
+          if (!existing.entries.has(name)) existing.entries.set(name, entry);
+        });
+      }
+    });
+  }
+
+  if (resolveValue(doc, dictGet(acroForm, 'NeedAppearances')) === true) form.needAppearances = true;
+  const sigFlags = resolveValue(doc, dictGet(acroForm, 'SigFlags'));
+  if (typeof sigFlags === 'number') form.sigFlags |= sigFlags;
+
+  // Fields whose widgets all sit on pages that were left out are not carried over
+  const placed = getPlacedAnnotations(writer, pageRefs);
+  const visited = new Set<number>();
+  const targets: PdfRef[] = [];
+  for (const field of fields) {
+    const target = isRef(field) ? refMap.get(field.num) : null;
+    if (target && keepPlacedWidgets(writer, target, placed, visited)) targets.push(target);
+  }
+
+  // A page copied twice brings its own widgets, which join the fields of the
+  // first copy's. A widget that is a field by itself becomes a field of its own.
+  placed.forEach(widget => {
+    const dict = getCopiedDict(writer, widget);
+    if (visited.has(widget.num) || !dict || !isName(dictGet(dict, 'Subtype'), 'Widget')) return;
+    const parent = dictGet(dict, 'Parent');
+    const parentDict = isRef(parent) ? getCopiedDict(writer, parent) : null;
+    const kids = getCopiedArray(writer, dictGet(parentDict, 'Kids'));
+    if (kids) {
+      kids.push(widget);
+    } else if (dict.entries.has('T')) {
+      targets.push(widget);
+    }
+  });
+
+  for (const target of targets) {
+    const dict = getCopiedDict(writer, target);
+    if (!dict) continue;
+
+    const name = decodePdfString(dictGet(dict, 'T'));
+    if (name) {
+      let unique = name;
+      for (let n = 2; form.names.has(unique); n++) {
+        unique = n === 2 ? `${prefix}${name}` : `${prefix}${name}_${n}`;
+      }
+      if (unique !== name) {
+        dict.entries.set('T', pdfString(unique));
+        form.renamed.push({ from: name, to: unique });
+      }
+      form.names.add(unique);
+    }
+    // Variable text fields inherit /DA from their own form, which may differ from the first one's
+    if (defaultAppearance !== null && !dict.entries.has('DA')) {
+      dict.entries.set('DA', importValue(writer, doc, defaultAppearance, refMap));
+    }
+    form.fields.push(target);
+  }
+
+  const calculationOrder = resolveValue(doc, dictGet(acroForm, 'CO'));
+  if (Array.isArray(calculationOrder)) {
+    for (const field of calculationOrder) {
+      const target = isRef(field) ? refMap.get(field.num) : null;
+      if (target) form.calculationOrder.push(target);
+    }
+  }
+};
+
+// Returns the /AcroForm dictionary for the output catalog, or null without fields
+export const writeAcroForm = (writer: PdfWriter, form: PdfMergedForm): PdfRef | null => {
+  if (form.fields.length === 0) return null;
+
+  const acroForm = pdfDict({ Fields: form.fields });
+  if (form.calculationOrder.length > 0) acroForm.entries.set('CO', form.calculationOrder);
+  if (form.resources.entries.size > 0) acroForm.entries.set('DR', form.resources);
+  if (form.defaultAppearance !== null) acroForm.entries.set('DA', form.defaultAppearance);
+  if (form.needAppearances) acroForm.entries.set('NeedAppearances', true);
+  if (form.sigFlags) acroForm.entries.set('SigFlags', form.sigFlags);
+  return addObject(writer, acroForm);
+};
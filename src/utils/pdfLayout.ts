@@ -0,0 +1,187 @@
+import { PdfDict, PdfRef, PdfValue, latin1ToBytes, pdfDict, pdfName, pdfStream } from "@/utils/pdfObjects";
+import { PdfWriter, addObject } from "@/utils/pdfWriter";
+
+// Page composition with the standard 14 fonts, for PDFs generated from scratch
+// (converted documents, cover and contents pages). The standard fonts only cover
+// WinAnsiEncoding, so other characters are written as "?".
+
+export const LETTER_SIZE: [number, number] = [612, 792];
+
+// Advance widths of the printable ASCII range (0x20-0x7E) in 1/1000 em
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding 0x80-0x9F (� marks unused codes); 0xA0-0xFF match Latin-1
+export const WIN_ANSI_HIGH =
+  '€�‚ƒ„…†‡ˆ‰Š‹Œ�Ž�' +
+  '�‘’“”•–—˜™š›œ�žŸ';
+
+export type PdfFontStyle = 'regular' | 'bold' | 'mono';
+
+export type PdfFonts = Record<PdfFontStyle, PdfRef>;
+
+const BASE_FONTS: Record<PdfFontStyle, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold', mono: 'Courier' };
+
+const FONT_RESOURCES: Record<PdfFontStyle, string> = { regular: 'F1', bold: 'F2', mono: 'F3' };
+
+export const addStandardFonts = (writer: PdfWriter): PdfFonts => {
+  const add = (style: PdfFontStyle) => addObject(writer, pdfDict({
+    Type: pdfName('Font'),
+    Subtype: pdfName('Type1'),
+    BaseFont: pdfName(BASE_FONTS[style]),
+    Encoding: pdfName('WinAnsiEncoding'),
+  }));
+  return { regular: add('regular'), bold: add('bold'), mono: add('mono') };
+};
+
+export const getFontResources = (fonts: PdfFonts): PdfDict =>
+  pdfDict({
+    Font: pdfDict({
+      [FONT_RESOURCES.regular]: fonts.regular,
+      [FONT_RESOURCES.bold]: fonts.bold,
+      [FONT_RESOURCES.mono]: fonts.mono,
+    }),
+  });
+
+export const encodeWinAnsi = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    const high = text[i] === '\ufffd' ? -1 : WIN_ANSI_HIGH.indexOf(text[i]);
+    bytes[i] = (code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) ? code : high >= 0 ? 0x80 + high : 0x3f;
+  }
+  return bytes;
+};
+
+const getCharWidth = (code: number, style: PdfFontStyle) => {
+  if (style === 'mono') return 600;
+  const widths = style === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  // Accented letters are close enough to the average lowercase width
+  return code >= 0x20 && code < 0x7f ? widths[code - 0x20] : 556;
+};
+
+export const measureText = (text: string, size: number, style: PdfFontStyle = 'regular') =>
+  Array.from(encodeWinAnsi(text)).reduce((sum, code) => sum + getCharWidth(code, style), 0) * size / 1000;
+
+// Greedy word wrap; words wider than the line are broken between characters
+export const wrapText = (text: string, maxWidth: number, size: number, style: PdfFontStyle = 'regular'): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/(?<=\s)/)) {
+      if (measureText(line + word.trimEnd(), size, style) <= maxWidth) {
+        line += word;
+        continue;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, size, style) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line.trimEnd());
+  }
+  return lines;
+};
+
+const formatCoordinate = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// Content stream operators that draw one line of text with its baseline at (x, y)
+export const showText = (text: string, x: number, y: number, size: number, style: PdfFontStyle = 'regular') => {
+  const hex = Array.from(encodeWinAnsi(text), b => b.toString(16).padStart(2, '0')).join('');
+  return `BT /${FONT_RESOURCES[style]} ${formatCoordinate(size)} Tf ${formatCoordinate(x)} ${formatCoordinate(y)} Td <${hex}> Tj ET\n`;
+};
+
+export const addPage = (
+  writer: PdfWriter,
+  parentRef: PdfRef,
+  size: [number, number],
+  content: string,
+  resources: PdfDict,
+  extra: Record<string, PdfValue> = {}
+): PdfRef => {
+  const contents = addObject(writer, pdfStream(pdfDict(), latin1ToBytes(content)));
+  return addObject(writer, pdfDict({
+    Type: pdfName('Page'),
+    Parent: parentRef,
+    MediaBox: [0, 0, size[0], size[1]],
+    Resources: resources,
+    Contents: contents,
+    ...extra,
+  }));
+};
+
+export interface PdfTextBlock {
+  text: string;
+  size?: number;
+  style?: PdfFontStyle;
+  // Extra space above the block in points, dropped at the top of a page
+  spaceBefore?: number;
+  indent?: number;
+  pageBreakBefore?: boolean;
+}
+
+export interface PdfFlowOptions {
+  pageSize?: [number, number];
+  margin?: number;
+}
+
+// Flows text blocks top to bottom over as many pages as needed
+export const layoutTextBlocks = (
+  writer: PdfWriter,
+  parentRef: PdfRef,
+  fonts: PdfFonts,
+  blocks: PdfTextBlock[],
+  options: PdfFlowOptions = {}
+): PdfRef[] => {
+  const [width, height] = options.pageSize ?? LETTER_SIZE;
+  const margin = options.margin ?? 54;
+  const resources = getFontResources(fonts);
+  const pageRefs: PdfRef[] = [];
+  let content = '';
+  let y = height - margin;
+
+  const flushPage = () => {
+    pageRefs.push(addPage(writer, parentRef, [width, height], content, resources));
+    content = '';
+    y = height - margin;
+  };
+
+  for (const block of blocks) {
+    const size = block.size ?? 11;
+    const style = block.style ?? 'regular';
+    const indent = block.indent ?? 0;
+    const lineHeight = size * 1.25;
+
+    if (block.pageBreakBefore && y < height - margin) flushPage();
+    if (y < height - margin) y -= block.spaceBefore ?? 0;
+
+    for (const line of wrapText(block.text, width - 2 * margin - indent, size, style)) {
+      if (y - lineHeight < margin && y < height - margin) flushPage();
+      y -= lineHeight;
+      if (line) content += showText(line, margin + indent, y + (lineHeight - size), size, style);
+    }
+  }
+
+  if (content || pageRefs.length === 0) flushPage();
+  return pageRefs;
+};
@@ -0,0 +1,244 @@
+import { PdfRef, pdfDict, pdfName } from "@/utils/pdfObjects";
+import { PdfDocument, PdfPage, getPageAttribute, getPages, resolveValue } from "@/utils/pdfReader";
+import { PdfOutlineItem, readOutline, remapOutline, writeOutline } from "@/utils/pdfOutline";
+import { createMergedForm, importFormFields, writeAcroForm } from "@/utils/pdfForms";
+import { PdfRefMap, PdfWriter, addObject, allocateRef, createPdfWriter, finishPdf, importPages } from "@/utils/pdfWriter";
+import {
+  LETTER_SIZE,
+  PdfFonts,
+  addPage,
+  addStandardFonts,
+  getFontResources,
+  layoutTextBlocks,
+  measureText,
+  showText,
+  wrapText,
+} from "@/utils/pdfLayout";
+
+// 'titled' separators show the name of the document that follows
+export type PdfSeparatorMode = 'none' | 'blank' | 'titled';
+
+export interface PdfMergeOptions {
+  title?: string;
+  // Per-document 1-based page numbers in output order; a missing entry means all pages
+  pageSelections?: (number[] | null)[];
+  // When set, adds one top-level bookmark per document (with this title) and
+  // nests the document's own bookmarks underneath it
+  outlineTitles?: string[];
+  // Alternates pages between documents (page 1 of each, then page 2, ...) instead
+  // of appending them, e.g. to collate the front and back sides of a scan
+  interleave?: boolean;
+  // Per-document flag to take the selected pages last to first
+  reversed?: boolean[];
+  // Document names shown on the generated cover, separator and contents pages,
+  // also used to prefix form fields whose names collide with an earlier document's
+  documentNames?: string[];
+  // A first page with a title, a date line and the list of documents
+  coverPage?: { title: string; date?: string };
+  // Pages inserted between consecutive documents (not used when interleaving)
+  separatorPages?: PdfSeparatorMode;
+  // Contents page(s) after the cover with page numbers linking to each document
+  tableOfContents?: boolean;
+}
+
+// Margin and row height of the generated pages, in points
+const GENERATED_MARGIN = 72;
+const CONTENTS_ROW_HEIGHT = 20;
+const CONTENTS_HEADING_HEIGHT = 48;
+
+// Round-robin over several lists; shorter lists simply drop out once exhausted
+export const interleaveLists = <T>(lists: T[][]): T[] => {
+  const result: T[] = [];
+  const length = Math.max(0, ...lists.map(list => list.length));
+  for (let i = 0; i < length; i++) {
+    for (const list of lists) {
+      if (i < list.length) result.push(list[i]);
+    }
+  }
+  return result;
+};
+
+const getPageSize = (doc: PdfDocument, page: PdfPage): [number, number] => {
+  const box = resolveValue(doc, getPageAttribute(page, 'MediaBox'));
+  if (Array.isArray(box) && box.length === 4 && box.every(value => typeof value === 'number')) {
+    const [x1, y1, x2, y2] = box as number[];
+    return [Math.abs(x2 - x1), Math.abs(y2 - y1)];
+  }
+  return LETTER_SIZE;
+};
+
+// Shortens text with an ellipsis until it fits on one line
+const truncateText = (text: string, maxWidth: number, size: number) => {
+  if (measureText(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && measureText(`${text.slice(0, end)}…`, size) > maxWidth) end--;
+  return `${text.slice(0, end).trimEnd()}…`;
+};
+
+const addSeparatorPage = (writer: PdfWriter, pagesRef: PdfRef, fonts: PdfFonts, size: [number, number], title: string | null) => {
+  const [width, height] = size;
+  const lines = title ? wrapText(title, width - 2 * GENERATED_MARGIN, 24, 'bold') : [];
+  let y = height / 2 + (lines.length * 30) / 2;
+  let content = '';
+  for (const line of lines) {
+    y -= 30;
+    content += showText(line, (width - measureText(line, 24, 'bold')) / 2, y, 24, 'bold');
+  }
+  return addPage(writer, pagesRef, size, content, getFontResources(fonts));
+};
+
+const getContentsRowsPerPage = (size: [number, number]) =>
+  Math.max(1, Math.floor((size[1] - 2 * GENERATED_MARGIN - CONTENTS_HEADING_HEIGHT) / CONTENTS_ROW_HEIGHT));
+
+// One row per document: name, dot leader and page number, with a link over the whole row
+const addContentsPages = (
+  writer: PdfWriter,
+  pagesRef: PdfRef,
+  fonts: PdfFonts,
+  size: [number, number],
+  entries: { title: string; pageNumber: number; target: PdfRef }[]
+): PdfRef[] => {
+  const [width, height] = size;
+  const rowsPerPage = getContentsRowsPerPage(size);
+  const right = width - GENERATED_MARGIN;
+  const dotWidth = measureText('.', 11);
+  const pageRefs: PdfRef[] = [];
+
+  for (let start = 0; start < entries.length; start += rowsPerPage) {
+    let y = height - GENERATED_MARGIN;
+    let content = '';
+    if (start === 0) {
+      content += showText('Contents', GENERATED_MARGIN, y - 20, 20, 'bold');
+    }
+    y -= CONTENTS_HEADING_HEIGHT;
+
+    const annotations: PdfRef[] = [];
+    for (const entry of entries.slice(start, start + rowsPerPage)) {
+      y -= CONTENTS_ROW_HEIGHT;
+      const number = `${entry.pageNumber}`;
+      const numberX = right - measureText(number, 11);
+      const title = truncateText(entry.title, numberX - GENERATED_MARGIN - 24, 11);
+      const titleEnd = GENERATED_MARGIN + measureText(title, 11);
+      const dots = Math.max(0, Math.floor((numberX - titleEnd - 12) / dotWidth));
+
+      content += showText(title, GENERATED_MARGIN, y, 11);
+      if (dots > 0) content += showText('.'.repeat(dots), numberX - 6 - dots * dotWidth, y, 11);
+      content += showText(number, numberX, y, 11);
+
+      annotations.push(addObject(writer, pdfDict({
+        Type: pdfName('Annot'),
+        Subtype: pdfName('Link'),
+        Rect: [GENERATED_MARGIN, y - 4, right, y + 12],
+        Border: [0, 0, 0],
+        Dest: [entry.target, pdfName('Fit')],
+      })));
+    }
+    pageRefs.push(addPage(writer, pagesRef, size, content, getFontResources(fonts), { Annots: annotations }));
+  }
+  return pageRefs;
+};
+
+// Field names cannot contain periods, which separate the levels of a field's full name
+const getFieldPrefix = (name: string, index: number) => {
+  const prefix = name.replace(/[^A-Za-z0-9_-]+/g, '_').replace(/^_+|_+$/g, '');
+  return `${prefix || `Document${index + 1}`}_`;
+};
+
+// Grafts the pages of every document, in order, into a single page tree.
+// Form fields are carried over with their values; see importFormFields.
+export const mergePdfDocuments = (documents: PdfDocument[], options: PdfMergeOptions = {}): Uint8Array => {
+  const writer = createPdfWriter();
+  const pagesRef = allocateRef(writer);
+  const documentPageRefs: PdfRef[][] = [];
+  const outline: PdfOutlineItem[] = [];
+  const form = createMergedForm();
+  let pageSize: [number, number] | null = null;
+
+  documents.forEach((doc, index) => {
+    const pages = getPages(doc);
+    const selection = options.pageSelections?.[index];
+    const selectedPages = selection
+      ? selection.map(pageNumber => {
+          if (!pages[pageNumber - 1]) {
+            throw new Error(`Page ${pageNumber} does not exist in document ${index + 1} (it has ${pages.length} pages)`);
+          }
+          return pages[pageNumber - 1];
+        })
+      : pages;
+
+    const refMap: PdfRefMap = new Map();
+    const orderedPages = options.reversed?.[index] ? [...selectedPages].reverse() : selectedPages;
+    const importedRefs = importPages(writer, doc, orderedPages, pagesRef, refMap);
+    documentPageRefs.push(importedRefs);
+    importFormFields(writer, doc, refMap, importedRefs, form, getFieldPrefix(options.documentNames?.[index] ?? '', index));
+    // Generated pages take the size of the first merged page
+    if (!pageSize && orderedPages.length > 0) pageSize = getPageSize(doc, orderedPages[0]);
+
+    if (options.outlineTitles && importedRefs.length > 0) {
+      outline.push({
+        title: options.outlineTitles[index] ?? `Document ${index + 1}`,
+        dest: [importedRefs[0], pdfName('Fit')],
+        action: null,
+        open: false,
+        children: remapOutline(writer, doc, readOutline(doc), refMap),
+      });
+    }
+  });
+
+  if (documentPageRefs.every(refs => refs.length === 0)) {
+    throw new Error('The selected PDFs do not contain any pages');
+  }
+
+  const size = pageSize ?? LETTER_SIZE;
+  const separators = options.interleave ? 'none' : options.separatorPages ?? 'none';
+  const generatesPages = !!options.coverPage || !!options.tableOfContents || separators !== 'none';
+  const fonts = generatesPages ? addStandardFonts(writer) : null;
+  const names = documents.map((_, index) => options.documentNames?.[index] ?? `Document ${index + 1}`);
+
+  let bodyRefs: PdfRef[];
+  if (options.interleave) {
+    bodyRefs = interleaveLists(documentPageRefs);
+  } else {
+    bodyRefs = [];
+    documentPageRefs.forEach((refs, index) => {
+      if (refs.length === 0) return;
+      if (fonts && separators !== 'none' && bodyRefs.length > 0) {
+        bodyRefs.push(addSeparatorPage(writer, pagesRef, fonts, size, separators === 'titled' ? names[index] : null));
+      }
+      bodyRefs.push(...refs);
+    });
+  }
+
+  const frontRefs: PdfRef[] = [];
+  if (fonts && options.coverPage) {
+    const { title, date } = options.coverPage;
+    frontRefs.push(...layoutTextBlocks(writer, pagesRef, fonts, [
+      { text: title, size: 28, style: 'bold' },
+      ...(date ? [{ text: date, size: 12, spaceBefore: 8 }] : []),
+      { text: 'Documents', size: 14, style: 'bold', spaceBefore: 36 },
+      ...names
+        .filter((_, index) => documentPageRefs[index].length > 0)
+        .map((name, index) => ({ text: `${index + 1}.  ${name}`, spaceBefore: 4, indent: 12 })),
+    ], { pageSize: size, margin: GENERATED_MARGIN }));
+  }
+
+  if (fonts && options.tableOfContents) {
+    const included = documentPageRefs
+      .map((refs, index) => ({ title: names[index], target: refs[0] }))
+      .filter(entry => entry.target);
+    // Page numbers count the cover and the contents pages themselves
+    const offset = frontRefs.length + Math.ceil(included.length / getContentsRowsPerPage(size));
+    const positions = new Map(bodyRefs.map((ref, index) => [ref.num, index]));
+    frontRefs.push(...addContentsPages(writer, pagesRef, fonts, size, included.map(entry => ({
+      ...entry,
+      pageNumber: offset + (positions.get(entry.target.num) ?? 0) + 1,
+    }))));
+  }
+
+  const acroForm = writeAcroForm(writer, form);
+  const catalog = {
+    ...(options.outlineTitles ? { Outlines: writeOutline(writer, outline), PageMode: pdfName('UseOutlines') } : {}),
+    ...(acroForm ? { AcroForm: acroForm } : {}),
+  };
+  return finishPdf(writer, pagesRef, [...frontRefs, ...bodyRefs], { title: options.title, catalog });
+};
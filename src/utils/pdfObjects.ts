@@ -0,0 +1,130 @@
+// In-memory representation of PDF objects shared by the reader and the writer.
+// Arrays are plain JS arrays; every other composite value carries a `kind` tag.
+
+export interface PdfName {
+  kind: 'name';
+  name: string;
+}
+
+export interface PdfString {
+  kind: 'string';
+  bytes: Uint8Array;
+  hex?: boolean;
+}
+
+export interface PdfRef {
+  kind: 'ref';
+  num: number;
+  gen: number;
+}
+
+export interface PdfDict {
+  kind: 'dict';
+  entries: Map<string, PdfValue>;
+}
+
+export interface PdfStream {
+  kind: 'stream';
+  dict: PdfDict;
+  // Raw (still encoded) stream bytes, exactly as stored in the file
+  data: Uint8Array;
+}
+
+export type PdfValue =
+  | null
+  | boolean
+  | number
+  | PdfName
+  | PdfString
+  | PdfRef
+  | PdfDict
+  | PdfStream
+  | PdfValue[];
+
+export const pdfName = (name: string): PdfName => ({ kind: 'name', name });
+
+export const pdfRef = (num: number, gen = 0): PdfRef => ({ kind: 'ref', num, gen });
+
+export const pdfDict = (entries: Record<string, PdfValue> = {}): PdfDict => ({
+  kind: 'dict',
+  entries: new Map(Object.entries(entries)),
+});
+
+export const pdfStream = (dict: PdfDict, data: Uint8Array): PdfStream => ({ kind: 'stream', dict, data });
+
+export const isName = (value: PdfValue, name?: string): value is PdfName =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'name' &&
+  (name === undefined || value.name === name);
+
+export const isRef = (value: PdfValue): value is PdfRef =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'ref';
+
+export const isDict = (value: PdfValue): value is PdfDict =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'dict';
+
+export const isStream = (value: PdfValue): value is PdfStream =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'stream';
+
+export const isString = (value: PdfValue): value is PdfString =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && value.kind === 'string';
+
+// Streams expose their dictionary so callers can treat both the same way
+export const asDict = (value: PdfValue): PdfDict | null => {
+  if (isDict(value)) return value;
+  if (isStream(value)) return value.dict;
+  return null;
+};
+
+export const dictGet = (dict: PdfDict | null | undefined, key: string): PdfValue =>
+  dict?.entries.get(key) ?? null;
+
+export const copyDict = (dict: PdfDict): PdfDict => ({ kind: 'dict', entries: new Map(dict.entries) });
+
+export const latin1ToBytes = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+export const bytesToLatin1 = (bytes: Uint8Array, start = 0, end = bytes.length): string => {
+  let text = '';
+  // Chunked to stay clear of the argument limit of String.fromCharCode
+  for (let i = start; i < end; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, Math.min(i + 8192, end)));
+  }
+  return text;
+};
+
+// Text strings are written as PDFDocEncoding when possible and UTF-16BE otherwise
+export const pdfString = (text: string): PdfString => {
+  if (/^[\x20-\x7e\n\r\t]*$/.test(text)) {
+    return { kind: 'string', bytes: latin1ToBytes(text) };
+  }
+  const bytes = new Uint8Array(2 + text.length * 2);
+  bytes[0] = 0xfe;
+  bytes[1] = 0xff;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[2 + i * 2] = code >> 8;
+    bytes[3 + i * 2] = code & 0xff;
+  }
+  return { kind: 'string', bytes };
+};
+
+export const decodePdfString = (value: PdfValue): string => {
+  if (!isString(value)) return '';
+  const { bytes } = value;
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = '';
+    for (let i = 2; i + 1 < bytes.length; i += 2) {
+      text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  if (bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  }
+  return bytesToLatin1(bytes);
+};
@@ -0,0 +1,171 @@
+import {
+  PdfDict,
+  PdfRef,
+  PdfValue,
+  decodePdfString,
+  dictGet,
+  isDict,
+  isName,
+  isRef,
+  isString,
+  pdfDict,
+  pdfName,
+  pdfString,
+} from "@/utils/pdfObjects";
+import { PdfDocument, getCatalog, resolveDict, resolveValue } from "@/utils/pdfReader";
+import { PdfRefMap, PdfWriter, allocateRef, importValue, setObject } from "@/utils/pdfWriter";
+
+export interface PdfOutlineItem {
+  title: string;
+  // Explicit destination; the first element is a page reference
+  dest: PdfValue[] | null;
+  // Non-navigation action such as /URI, kept as-is
+  action: PdfValue;
+  open: boolean;
+  children: PdfOutlineItem[];
+}
+
+// Looks a key up in a name tree (PDF 7.9.6)
+const lookupNameTree = (doc: PdfDocument, node: PdfDict | null, key: string, depth = 0): PdfValue => {
+  if (!node || depth > 32) return null;
+
+  const names = resolveValue(doc, dictGet(node, 'Names'));
+  if (Array.isArray(names)) {
+    for (let i = 0; i + 1 < names.length; i += 2) {
+      if (decodePdfString(resolveValue(doc, names[i])) === key) {
+        return resolveValue(doc, names[i + 1]);
+      }
+    }
+  }
+
+  const kids = resolveValue(doc, dictGet(node, 'Kids'));
+  if (Array.isArray(kids)) {
+    for (const kid of kids) {
+      const found = lookupNameTree(doc, resolveDict(doc, kid), key, depth + 1);
+      if (found !== null) return found;
+    }
+  }
+  return null;
+};
+
+// Turns named destinations and destination dictionaries into explicit [page /Type ...] arrays
+export const resolveDestination = (doc: PdfDocument, dest: PdfValue): PdfValue[] | null => {
+  let current = resolveValue(doc, dest);
+  for (let depth = 0; depth < 4; depth++) {
+    if (Array.isArray(current)) {
+      return current;
+    }
+    if (isDict(current)) {
+      current = resolveValue(doc, dictGet(current, 'D'));
+      continue;
+    }
+    if (isName(current) || isString(current)) {
+      const key = isName(current) ? current.name : decodePdfString(current);
+      const catalog = getCatalog(doc);
+      const legacy = resolveDict(doc, dictGet(catalog, 'Dests'));
+      const names = resolveDict(doc, dictGet(catalog, 'Names'));
+      current = legacy?.entries.has(key)
+        ? resolveValue(doc, legacy.entries.get(key))
+        : lookupNameTree(doc, resolveDict(doc, dictGet(names, 'Dests')), key);
+      continue;
+    }
+    return null;
+  }
+  return null;
+};
+
+// Reads the document outline (bookmarks) into a plain tree
+export const readOutline = (doc: PdfDocument): PdfOutlineItem[] => {
+  const outlines = resolveDict(doc, dictGet(getCatalog(doc), 'Outlines'));
+  const visited = new Set<number>();
+
+  const readItems = (first: PdfValue, depth: number): PdfOutlineItem[] => {
+    const items: PdfOutlineItem[] = [];
+    let current = first;
+    while (isRef(current) && !visited.has(current.num) && depth < 64) {
+      visited.add(current.num);
+      const dict = resolveDict(doc, current);
+      if (!dict) break;
+
+      let dest = dictGet(dict, 'Dest');
+      let action = resolveValue(doc, dictGet(dict, 'A'));
+      if (dest === null && isDict(action) && isName(dictGet(action, 'S'), 'GoTo')) {
+        dest = dictGet(action, 'D');
+        action = null;
+      }
+
+      const count = resolveValue(doc, dictGet(dict, 'Count'));
+      items.push({
+        title: decodePdfString(resolveValue(doc, dictGet(dict, 'Title'))),
+        dest: dest !== null ? resolveDestination(doc, dest) : null,
+        action,
+        open: typeof count === 'number' && count > 0,
+        children: readItems(dictGet(dict, 'First'), depth + 1),
+      });
+      current = dictGet(dict, 'Next');
+    }
+    return items;
+  };
+
+  return outlines ? readItems(dictGet(outlines, 'First'), 0) : [];
+};
+
+// Rewrites destinations into the output document. Items pointing at pages that
+// were not copied lose their destination and are dropped unless they still have children.
+export const remapOutline = (
+  writer: PdfWriter,
+  doc: PdfDocument,
+  items: PdfOutlineItem[],
+  refMap: PdfRefMap
+): PdfOutlineItem[] =>
+  items.flatMap(item => {
+    const children = remapOutline(writer, doc, item.children, refMap);
+    const page = item.dest?.[0];
+    const target = isRef(page) ? refMap.get(page.num) : null;
+    const dest = target ? [target, ...(importValue(writer, doc, item.dest.slice(1), refMap) as PdfValue[])] : null;
+    const action = item.action !== null ? importValue(writer, doc, item.action, refMap) : null;
+    if (!dest && action === null && children.length === 0) {
+      return [];
+    }
+    return [{ ...item, dest, action, children }];
+  });
+
+const countVisible = (items: PdfOutlineItem[]): number =>
+  items.reduce((sum, item) => sum + 1 + (item.open ? countVisible(item.children) : 0), 0);
+
+// Writes an outline tree whose destinations already refer to objects in the writer
+export const writeOutline = (writer: PdfWriter, items: PdfOutlineItem[]): PdfRef => {
+  const rootRef = allocateRef(writer);
+
+  const writeLevel = (levelItems: PdfOutlineItem[], parentRef: PdfRef): PdfRef[] => {
+    const refs = levelItems.map(() => allocateRef(writer));
+    levelItems.forEach((item, index) => {
+      const dict = pdfDict({
+        Title: pdfString(item.title),
+        Parent: parentRef,
+      });
+      if (index > 0) dict.entries.set('Prev', refs[index - 1]);
+      if (index < refs.length - 1) dict.entries.set('Next', refs[index + 1]);
+      if (item.dest) dict.entries.set('Dest', item.dest);
+      if (item.action !== null) dict.entries.set('A', item.action);
+
+      const childRefs = writeLevel(item.children, refs[index]);
+      if (childRefs.length > 0) {
+        dict.entries.set('First', childRefs[0]);
+        dict.entries.set('Last', childRefs[childRefs.length - 1]);
+        // A negative count marks a closed item
+        dict.entries.set('Count', item.open ? countVisible(item.children) : -countVisible(item.children));
+      }
+      setObject(writer, refs[index], dict);
+    });
+    return refs;
+  };
+
+  const topRefs = writeLevel(items, rootRef);
+  setObject(writer, rootRef, pdfDict({
+    Type: pdfName('Outlines'),
+    ...(topRefs.length > 0 ? { First: topRefs[0], Last: topRefs[topRefs.length - 1] } : {}),
+    Count: countVisible(items),
+  }));
+  return rootRef;
+};
@@ -0,0 +1,786 @@
+import {
+  PdfDict,
+  PdfName,
+  PdfRef,
+  PdfStream,
+  PdfValue,
+  asDict,
+  bytesToLatin1,
+  decodePdfString,
+  dictGet,
+  isDict,
+  isName,
+  isRef,
+  isStream,
+  pdfDict,
+  pdfName,
+  pdfRef,
+} from "@/utils/pdfObjects";
+import { applyFilters } from "@/utils/pdfFilters";
+
+export interface XrefEntry {
+  offset: number;
+  gen: number;
+  free?: boolean;
+  // Set for objects stored inside an object stream (xref entry type 2)
+  objectStream?: number;
+  index?: number;
+}
+
+export interface PdfDocument {
+  bytes: Uint8Array;
+  xref: Map<number, XrefEntry>;
+  trailer: PdfDict;
+  cache: Map<number, PdfValue>;
+}
+
+export interface PdfPage {
+  ref: PdfRef;
+  dict: PdfDict;
+  // Attributes the page inherits from its ancestors in the page tree
+  inherited: Map<string, PdfValue>;
+}
+
+interface PdfCursor {
+  bytes: Uint8Array;
+  pos: number;
+}
+
+export const INHERITABLE_PAGE_KEYS = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+
+const isWhitespace = (c: number) =>
+  c === 0x00 || c === 0x09 || c === 0x0a || c === 0x0c || c === 0x0d || c === 0x20;
+
+// ( ) < > [ ] { } / %
+const isDelimiter = (c: number) =>
+  c === 0x28 || c === 0x29 || c === 0x3c || c === 0x3e || c === 0x5b ||
+  c === 0x5d || c === 0x7b || c === 0x7d || c === 0x2f || c === 0x25;
+
+const isRegular = (c: number) => c !== undefined && !isWhitespace(c) && !isDelimiter(c);
+
+const skipWhitespace = (cursor: PdfCursor) => {
+  const { bytes } = cursor;
+  while (cursor.pos < bytes.length) {
+    const c = bytes[cursor.pos];
+    if (isWhitespace(c)) {
+      cursor.pos++;
+    } else if (c === 0x25) {
+      // Comments run to the end of the line
+      while (cursor.pos < bytes.length && bytes[cursor.pos] !== 0x0a && bytes[cursor.pos] !== 0x0d) {
+        cursor.pos++;
+      }
+    } else {
+      break;
+    }
+  }
+};
+
+const readToken = (cursor: PdfCursor): string => {
+  skipWhitespace(cursor);
+  const start = cursor.pos;
+  while (cursor.pos < cursor.bytes.length && isRegular(cursor.bytes[cursor.pos])) {
+    cursor.pos++;
+  }
+  return bytesToLatin1(cursor.bytes, start, cursor.pos);
+};
+
+const peekToken = (cursor: PdfCursor): string => {
+  const saved = cursor.pos;
+  const token = readToken(cursor);
+  cursor.pos = saved;
+  return token;
+};
+
+const isIntegerToken = (token: string) => /^[+-]?\d+$/.test(token);
+
+const hexValue = (c: number) => {
+  if (c >= 0x30 && c <= 0x39) return c - 0x30;
+  if (c >= 0x41 && c <= 0x46) return c - 0x37;
+  if (c >= 0x61 && c <= 0x66) return c - 0x57;
+  return -1;
+};
+
+const parseLiteralString = (cursor: PdfCursor): PdfValue => {
+  const { bytes } = cursor;
+  const out: number[] = [];
+  let depth = 1;
+  cursor.pos++; // (
+  while (cursor.pos < bytes.length) {
+    const c = bytes[cursor.pos++];
+    if (c === 0x5c) {
+      const next = bytes[cursor.pos++];
+      switch (next) {
+        case 0x6e: out.push(0x0a); break; // \n
+        case 0x72: out.push(0x0d); break; // \r
+        case 0x74: out.push(0x09); break; // \t
+        case 0x62: out.push(0x08); break; // \b
+        case 0x66: out.push(0x0c); break; // \f
+        case 0x0d:
+          // Escaped line break is a continuation
+          if (bytes[cursor.pos] === 0x0a) cursor.pos++;
+          break;
+        case 0x0a:
+          break;
+        default:
+          if (next >= 0x30 && next <= 0x37) {
+            let code = next - 0x30;
+            for (let i = 0; i < 2 && bytes[cursor.pos] >= 0x30 && bytes[cursor.pos] <= 0x37; i++) {
+              code = code * 8 + (bytes[cursor.pos++] - 0x30);
+            }
+            out.push(code & 0xff);
+          } else if (next !== undefined) {
+            out.push(next);
+          }
+      }
+    } else if (c === 0x28) {
+      depth++;
+      out.push(c);
+    } else if (c === 0x29) {
+      depth--;
+      if (depth === 0) break;
+      out.push(c);
+    } else if (c === 0x0d) {
+      // End-of-line markers inside literal strings read as a single \n
+      if (bytes[cursor.pos] === 0x0a) cursor.pos++;
+      out.push(0x0a);
+    } else {
+      out.push(c);
+    }
+  }
+  return { kind: 'string', bytes: new Uint8Array(out) };
+};
+
+const parseHexString = (cursor: PdfCursor): PdfValue => {
+  const { bytes } = cursor;
+  const out: number[] = [];
+  let high = -1;
+  cursor.pos++; // <
+  while (cursor.pos < bytes.length) {
+    const c = bytes[cursor.pos++];
+    if (c === 0x3e) break;
+    const value = hexValue(c);
+    if (value < 0) continue;
+    if (high < 0) {
+      high = value;
+    } else {
+      out.push((high << 4) | value);
+      high = -1;
+    }
+  }
+  // A trailing odd digit is padded with zero
+  if (high >= 0) out.push(high << 4);
+  return { kind: 'string', bytes: new Uint8Array(out), hex: true };
+};
+
+const parseName = (cursor: PdfCursor): PdfValue => {
+  const { bytes } = cursor;
+  cursor.pos++; // /
+  let name = '';
+  while (cursor.pos < bytes.length && isRegular(bytes[cursor.pos])) {
+    const c = bytes[cursor.pos++];
+    if (c === 0x23 && hexValue(bytes[cursor.pos]) >= 0 && hexValue(bytes[cursor.pos + 1]) >= 0) {
+      name += String.fromCharCode((hexValue(bytes[cursor.pos]) << 4) | hexValue(bytes[cursor.pos + 1]));
+      cursor.pos += 2;
+    } else {
+      name += String.fromCharCode(c);
+    }
+  }
+  return pdfName(name);
+};
+
+const parseValue = (cursor: PdfCursor): PdfValue => {
+  skipWhitespace(cursor);
+  const { bytes } = cursor;
+  const c = bytes[cursor.pos];
+
+  if (c === undefined) {
+    throw new Error('Unexpected end of file');
+  }
+  if (c === 0x2f) {
+    return parseName(cursor);
+  }
+  if (c === 0x28) {
+    return parseLiteralString(cursor);
+  }
+  if (c === 0x3c) {
+    if (bytes[cursor.pos + 1] !== 0x3c) {
+      return parseHexString(cursor);
+    }
+    cursor.pos += 2;
+    const dict = pdfDict();
+    for (;;) {
+      skipWhitespace(cursor);
+      if (bytes[cursor.pos] === 0x3e && bytes[cursor.pos + 1] === 0x3e) {
+        cursor.pos += 2;
+        return dict;
+      }
+      if (cursor.pos >= bytes.length) {
+        throw new Error('Unterminated dictionary');
+      }
+      const key = parseValue(cursor);
+      if (!isName(key)) {
+        throw new Error(`Invalid dictionary key at offset ${cursor.pos}`);
+      }
+      dict.entries.set(key.name, parseValue(cursor));
+    }
+  }
+  if (c === 0x5b) {
+    cursor.pos++;
+    const items: PdfValue[] = [];
+    for (;;) {
+      skipWhitespace(cursor);
+      if (bytes[cursor.pos] === 0x5d) {
+        cursor.pos++;
+        return items;
+      }
+      if (cursor.pos >= bytes.length) {
+        throw new Error('Unterminated array');
+      }
+      items.push(parseValue(cursor));
+    }
+  }
+
+  const token = readToken(cursor);
+  if (token === '') {
+    throw new Error(`Unexpected delimiter at offset ${cursor.pos}`);
+  }
+  if (token === 'true') return true;
+  if (token === 'false') return false;
+  if (token === 'null') return null;
+
+  if (isIntegerToken(token)) {
+    // Look ahead for an indirect reference: <num> <gen> R
+    const saved = cursor.pos;
+    const gen = readToken(cursor);
+    if (isIntegerToken(gen) && readToken(cursor) === 'R') {
+      return pdfRef(parseInt(token, 10), parseInt(gen, 10));
+    }
+    cursor.pos = saved;
+    return parseInt(token, 10);
+  }
+
+  const number = parseFloat(token);
+  if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token) && !isNaN(number)) {
+    return number;
+  }
+
+  throw new Error(`Unexpected token "${token}" at offset ${cursor.pos - token.length}`);
+};
+
+const indexOfSequence = (bytes: Uint8Array, sequence: string, from: number, to = bytes.length) => {
+  const first = sequence.charCodeAt(0);
+  const end = Math.min(to, bytes.length) - sequence.length;
+  for (let i = from; i <= end; i++) {
+    if (bytes[i] !== first) continue;
+    let match = true;
+    for (let j = 1; j < sequence.length; j++) {
+      if (bytes[i + j] !== sequence.charCodeAt(j)) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i;
+  }
+  return -1;
+};
+
+const lastIndexOfSequence = (bytes: Uint8Array, sequence: string, from = bytes.length) => {
+  for (let i = Math.min(from, bytes.length - sequence.length); i >= 0; i--) {
+    let match = true;
+    for (let j = 0; j < sequence.length; j++) {
+      if (bytes[i + j] !== sequence.charCodeAt(j)) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i;
+  }
+  return -1;
+};
+
+// Reads "<num> <gen> obj <value> [stream ... endstream] endobj" at the cursor
+const parseIndirectObject = (doc: PdfDocument, cursor: PdfCursor): { num: number; gen: number; value: PdfValue } => {
+  const num = readToken(cursor);
+  const gen = readToken(cursor);
+  if (!isIntegerToken(num) || !isIntegerToken(gen) || readToken(cursor) !== 'obj') {
+    throw new Error(`No object found at offset ${cursor.pos}`);
+  }
+
+  const value = parseValue(cursor);
+  if (isDict(value) && peekToken(cursor) === 'stream') {
+    readToken(cursor);
+    const { bytes } = cursor;
+    // The keyword is followed by CRLF or LF before the data starts
+    if (bytes[cursor.pos] === 0x0d) cursor.pos++;
+    if (bytes[cursor.pos] === 0x0a) cursor.pos++;
+    const start = cursor.pos;
+
+    const declared = resolveValue(doc, dictGet(value, 'Length'));
+    let end = typeof declared === 'number' ? start + declared : -1;
+    if (end < start || end > bytes.length || peekToken({ bytes, pos: end }) !== 'endstream') {
+      // /Length is missing or wrong - fall back to the endstream keyword
+      end = indexOfSequence(bytes, 'endstream', start);
+      if (end < 0) {
+        throw new Error(`Unterminated stream in object ${num}`);
+      }
+      if (bytes[end - 1] === 0x0a) end--;
+      if (bytes[end - 1] === 0x0d) end--;
+    }
+
+    cursor.pos = end;
+    readToken(cursor); // endstream
+    return { num: parseInt(num, 10), gen: parseInt(gen, 10), value: { kind: 'stream', dict: value, data: bytes.slice(start, end) } };
+  }
+
+  return { num: parseInt(num, 10), gen: parseInt(gen, 10), value };
+};
+
+// Parses a classic "xref" section and returns the trailer dictionary that follows it
+const readXrefTable = (doc: PdfDocument, cursor: PdfCursor): PdfDict => {
+  if (readToken(cursor) !== 'xref') {
+    throw new Error(`Expected xref table at offset ${cursor.pos}`);
+  }
+
+  for (;;) {
+    const token = peekToken(cursor);
+    if (token === 'trailer') {
+      readToken(cursor);
+      break;
+    }
+    if (!isIntegerToken(token)) {
+      throw new Error(`Malformed xref table at offset ${cursor.pos}`);
+    }
+
+    const start = parseInt(readToken(cursor), 10);
+    const count = parseInt(readToken(cursor), 10);
+    for (let i = 0; i < count; i++) {
+      const offset = parseInt(readToken(cursor), 10);
+      const gen = parseInt(readToken(cursor), 10);
+      const type = readToken(cursor);
+      if (isNaN(offset) || isNaN(gen) || (type !== 'n' && type !== 'f')) {
+        throw new Error(`Malformed xref entry at offset ${cursor.pos}`);
+      }
+      // Newer sections are read first, so existing entries take precedence
+      if (!doc.xref.has(start + i)) {
+        doc.xref.set(start + i, { offset, gen, free: type === 'f' });
+      }
+    }
+  }
+
+  const trailer = parseValue(cursor);
+  if (!isDict(trailer)) {
+    throw new Error('Malformed trailer dictionary');
+  }
+  return trailer;
+};
+
+// Parses a cross-reference stream (PDF 1.5+) and returns its dictionary, which doubles as the trailer
+const readXrefStream = async (doc: PdfDocument, offset: number): Promise<PdfDict> => {
+  const { value } = parseIndirectObject(doc, { bytes: doc.bytes, pos: offset });
+  if (!isStream(value) || !isName(dictGet(value.dict, 'Type'), 'XRef')) {
+    throw new Error(`Expected xref stream at offset ${offset}`);
+  }
+
+  const data = await decodeStream(doc, value);
+  const widths = dictGet(value.dict, 'W');
+  if (!Array.isArray(widths) || widths.length < 3) {
+    throw new Error('Malformed xref stream /W entry');
+  }
+  const [typeWidth, fieldWidth, genWidth] = widths as number[];
+  const entryWidth = typeWidth + fieldWidth + genWidth;
+  const size = dictGet(value.dict, 'Size') as number;
+  const index = dictGet(value.dict, 'Index');
+  const subsections = Array.isArray(index) ? (index as number[]) : [0, size];
+
+  const readField = (pos: number, width: number) => {
+    let result = 0;
+    for (let i = 0; i < width; i++) {
+      result = result * 256 + data[pos + i];
+    }
+    return result;
+  };
+
+  let pos = 0;
+  for (let s = 0; s + 1 < subsections.length; s += 2) {
+    const start = subsections[s];
+    const count = subsections[s + 1];
+    for (let i = 0; i < count && pos + entryWidth <= data.length; i++, pos += entryWidth) {
+      // A zero-width type field defaults to type 1
+      const type = typeWidth === 0 ? 1 : readField(pos, typeWidth);
+      const field2 = readField(pos + typeWidth, fieldWidth);
+      const field3 = readField(pos + typeWidth + fieldWidth, genWidth);
+      if (doc.xref.has(start + i)) continue;
+      if (type === 0) {
+        doc.xref.set(start + i, { offset: 0, gen: field3, free: true });
+      } else if (type === 1) {
+        doc.xref.set(start + i, { offset: field2, gen: field3 });
+      } else if (type === 2) {
+        doc.xref.set(start + i, { offset: 0, gen: 0, objectStream: field2, index: field3 });
+      }
+    }
+  }
+
+  return value.dict;
+};
+
+// Reads one cross-reference section, which is either a classic table or an xref stream
+const readXrefSection = async (doc: PdfDocument, offset: number): Promise<PdfDict> => {
+  const cursor = { bytes: doc.bytes, pos: offset };
+  if (peekToken(cursor) !== 'xref') {
+    return readXrefStream(doc, offset);
+  }
+
+  const trailer = readXrefTable(doc, cursor);
+  // Hybrid-reference files list their compressed objects in a separate stream
+  const xrefStm = dictGet(trailer, 'XRefStm');
+  if (typeof xrefStm === 'number') {
+    try {
+      await readXrefStream(doc, xrefStm);
+    } catch (error) {
+      console.warn('Ignoring unreadable /XRefStm section:', error);
+    }
+  }
+  return trailer;
+};
+
+const findStartXref = (bytes: Uint8Array): number => {
+  const index = lastIndexOfSequence(bytes, 'startxref');
+  if (index < 0) {
+    throw new Error('Missing startxref');
+  }
+  const cursor = { bytes, pos: index + 'startxref'.length };
+  const offset = parseInt(readToken(cursor), 10);
+  if (isNaN(offset)) {
+    throw new Error('Malformed startxref');
+  }
+  return offset;
+};
+
+// Follows startxref and the /Prev chain of incremental updates from the newest section to the oldest
+const readXrefChain = async (doc: PdfDocument): Promise<PdfDict> => {
+  const visited = new Set<number>();
+  let offset = findStartXref(doc.bytes);
+  let newestTrailer: PdfDict | null = null;
+  while (offset >= 0 && !visited.has(offset)) {
+    visited.add(offset);
+    const trailer = await readXrefSection(doc, offset);
+    newestTrailer = newestTrailer ?? trailer;
+    const prev = dictGet(trailer, 'Prev');
+    offset = typeof prev === 'number' ? prev : -1;
+  }
+  return newestTrailer;
+};
+
+// Last resort for damaged files: locate every "<num> <gen> obj" header by scanning the bytes
+const reconstructXref = (doc: PdfDocument): PdfDict => {
+  doc.xref.clear();
+  doc.cache.clear();
+
+  const text = bytesToLatin1(doc.bytes);
+  const header = /(\d+)\s+(\d+)\s+obj\b/g;
+  let match: RegExpExecArray | null;
+  while ((match = header.exec(text)) !== null) {
+    // Later definitions win, just as they would in an incremental update
+    doc.xref.set(parseInt(match[1], 10), { offset: match.index, gen: parseInt(match[2], 10) });
+  }
+
+  let trailer: PdfDict | null = null;
+  let trailerIndex = text.lastIndexOf('trailer');
+  while (trailerIndex >= 0 && !trailer) {
+    try {
+      const candidate = parseValue({ bytes: doc.bytes, pos: trailerIndex + 'trailer'.length });
+      if (isDict(candidate) && isRef(dictGet(candidate, 'Root'))) {
+        trailer = candidate;
+      }
+    } catch {
+      // Keep looking further back
+    }
+    trailerIndex = text.lastIndexOf('trailer', trailerIndex - 1);
+  }
+
+  if (!trailer) {
+    // Without a trailer, fall back to an xref stream dictionary or any object typed as the catalog
+    for (const [num] of doc.xref) {
+      const value = getObject(doc, num);
+      const dict = asDict(value);
+      if (isName(dictGet(dict, 'Type'), 'XRef') && isRef(dictGet(dict, 'Root'))) {
+        trailer = dict;
+        break;
+      }
+      if (isName(dictGet(dict, 'Type'), 'Catalog')) {
+        trailer = pdfDict({ Root: pdfRef(num, doc.xref.get(num).gen) });
+      }
+    }
+  }
+
+  doc.cache.clear();
+  return trailer ?? pdfDict();
+};
+
+// Object streams are decoded up front so that getObject can stay synchronous
+const loadObjectStreams = async (doc: PdfDocument, reconstructed: boolean) => {
+  const streamNumbers = new Set<number>();
+  if (reconstructed) {
+    for (const [num] of doc.xref) {
+      const value = getObject(doc, num);
+      if (isStream(value) && isName(dictGet(value.dict, 'Type'), 'ObjStm')) {
+        streamNumbers.add(num);
+      }
+    }
+  } else {
+    doc.xref.forEach(entry => {
+      if (entry.objectStream !== undefined) streamNumbers.add(entry.objectStream);
+    });
+  }
+
+  for (const streamNumber of streamNumbers) {
+    const stream = getObject(doc, streamNumber);
+    if (!isStream(stream)) continue;
+
+    try {
+      const data = await decodeStream(doc, stream);
+      const count = dictGet(stream.dict, 'N') as number;
+      const first = dictGet(stream.dict, 'First') as number;
+      const cursor = { bytes: data, pos: 0 };
+      const headers: { num: number; offset: number }[] = [];
+      for (let i = 0; i < count; i++) {
+        headers.push({ num: parseInt(readToken(cursor), 10), offset: parseInt(readToken(cursor), 10) });
+      }
+
+      headers.forEach(({ num, offset }, index) => {
+        const entry = doc.xref.get(num);
+        if (reconstructed) {
+          // Objects defined directly in the file take precedence
+          if (entry && entry.objectStream === undefined) return;
+          doc.xref.set(num, { offset: 0, gen: 0, objectStream: streamNumber, index });
+        } else if (entry?.objectStream !== streamNumber) {
+          return;
+        }
+        try {
+          doc.cache.set(num, parseValue({ bytes: data, pos: first + offset }));
+        } catch (error) {
+          console.warn(`Could not read PDF object ${num} from object stream ${streamNumber}:`, error);
+        }
+      });
+    } catch (error) {
+      console.warn(`Could not decode object stream ${streamNumber}:`, error);
+    }
+  }
+};
+
+export const loadPdf = async (data: ArrayBuffer | Uint8Array): Promise<PdfDocument> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (indexOfSequence(bytes, '%PDF-', 0, 1024) < 0) {
+    throw new Error('Not a PDF file');
+  }
+
+  const doc: PdfDocument = { bytes, xref: new Map(), trailer: pdfDict(), cache: new Map() };
+
+  let reconstructed = false;
+  try {
+    doc.trailer = await readXrefChain(doc);
+    await loadObjectStreams(doc, false);
+    if (!isDict(resolveValue(doc, dictGet(doc.trailer, 'Root')))) {
+      throw new Error('Catalog not reachable from the trailer');
+    }
+  } catch (error) {
+    console.warn('Rebuilding damaged cross-reference table:', error);
+    doc.trailer = reconstructXref(doc);
+    reconstructed = true;
+  }
+
+  if (dictGet(doc.trailer, 'Encrypt') !== null) {
+    throw new Error('Encrypted PDFs are not supported');
+  }
+  if (reconstructed) {
+    await loadObjectStreams(doc, true);
+  }
+  if (!isDict(resolveValue(doc, dictGet(doc.trailer, 'Root')))) {
+    throw new Error('Missing document catalog');
+  }
+
+  return doc;
+};
+
+export const getObject = (doc: PdfDocument, num: number): PdfValue => {
+  if (doc.cache.has(num)) {
+    return doc.cache.get(num);
+  }
+
+  const entry = doc.xref.get(num);
+  let value: PdfValue = null;
+  // Compressed objects are loaded with their object stream; anything missing here is unreadable
+  if (entry && !entry.free && entry.objectStream === undefined) {
+    // Guard against objects whose /Length refers back to themselves
+    doc.cache.set(num, null);
+    try {
+      const parsed = parseIndirectObject(doc, { bytes: doc.bytes, pos: entry.offset });
+      value = parsed.num === num ? parsed.value : null;
+    } catch (error) {
+      console.warn(`Could not read PDF object ${num}:`, error);
+    }
+  }
+
+  doc.cache.set(num, value);
+  return value;
+};
+
+export const resolveValue = (doc: PdfDocument, value: PdfValue): PdfValue => {
+  let current = value;
+  // Bounded so that reference cycles cannot hang the reader
+  for (let depth = 0; isRef(current) && depth < 32; depth++) {
+    current = getObject(doc, current.num);
+  }
+  return isRef(current) ? null : current;
+};
+
+export const resolveDict = (doc: PdfDocument, value: PdfValue): PdfDict | null =>
+  asDict(resolveValue(doc, value));
+
+export const getCatalog = (doc: PdfDocument): PdfDict =>
+  resolveDict(doc, dictGet(doc.trailer, 'Root'));
+
+// The /Title entry of the document information dictionary, or an empty string
+export const getDocumentTitle = (doc: PdfDocument): string =>
+  decodePdfString(resolveValue(doc, dictGet(resolveDict(doc, dictGet(doc.trailer, 'Info')), 'Title'))).trim();
+
+export const getPages = (doc: PdfDocument): PdfPage[] => {
+  const pages: PdfPage[] = [];
+  const visited = new Set<number>();
+
+  const walk = (node: PdfValue, inherited: Map<string, PdfValue>) => {
+    if (!isRef(node) || visited.has(node.num)) return;
+    visited.add(node.num);
+
+    const dict = resolveDict(doc, node);
+    if (!dict) return;
+
+    const type = dictGet(dict, 'Type');
+    const kids = resolveValue(doc, dictGet(dict, 'Kids'));
+    if (isName(type, 'Page') || (!isName(type, 'Pages') && !Array.isArray(kids))) {
+      pages.push({ ref: node, dict, inherited });
+      return;
+    }
+
+    const nextInherited = new Map(inherited);
+    for (const key of INHERITABLE_PAGE_KEYS) {
+      if (dict.entries.has(key)) {
+        nextInherited.set(key, dict.entries.get(key));
+      }
+    }
+    if (Array.isArray(kids)) {
+      for (const kid of kids) {
+        walk(kid, nextInherited);
+      }
+    }
+  };
+
+  walk(dictGet(getCatalog(doc), 'Pages'), new Map());
+  return pages;
+};
+
+// Page attribute lookup that honors inheritance from the page tree
+export const getPageAttribute = (page: PdfPage, key: string): PdfValue =>
+  page.dict.entries.has(key) ? page.dict.entries.get(key) : page.inherited.get(key) ?? null;
+
+// Returns the decoded bytes of a stream, resolving indirect /Filter and /DecodeParms entries
+export const decodeStream = async (doc: PdfDocument, stream: PdfStream): Promise<Uint8Array> => {
+  const filter = resolveValue(doc, dictGet(stream.dict, 'Filter'));
+  const params = resolveValue(doc, dictGet(stream.dict, 'DecodeParms'));
+  const filters = (Array.isArray(filter) ? filter : [filter])
+    .map(value => resolveValue(doc, value))
+    .filter((value): value is PdfName => isName(value))
+    .map(value => value.name);
+  const paramList = (Array.isArray(params) ? params : [params]).map(value => resolveDict(doc, value));
+  return applyFilters(stream.data, filters, paramList);
+};
+
+// Decoded page content; an array of content streams is joined with line breaks,
+// since operators may continue from one stream into the next
+export const getPageContents = async (doc: PdfDocument, page: PdfPage): Promise<Uint8Array> => {
+  const contents = resolveValue(doc, dictGet(page.dict, 'Contents'));
+  const parts = Array.isArray(contents) ? contents.map(part => resolveValue(doc, part)) : [contents];
+  const decoded = await Promise.all(parts.filter(isStream).map(part => decodeStream(doc, part)));
+  const joined = new Uint8Array(decoded.reduce((sum, part) => sum + part.length + 1, 0));
+  let offset = 0;
+  for (const part of decoded) {
+    joined.set(part, offset);
+    joined[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+  return joined;
+};
+
+export interface PdfOperation {
+  operator: string;
+  operands: PdfValue[];
+}
+
+// Splits decoded content stream bytes into operators and their operands.
+// An inline image (BI ... ID <data> EI) becomes a single 'BI' operation whose
+// operand is the image dictionary; the image data itself is skipped.
+export const parseContentStream = (bytes: Uint8Array): PdfOperation[] => {
+  const cursor: PdfCursor = { bytes, pos: 0 };
+  const operations: PdfOperation[] = [];
+  let operands: PdfValue[] = [];
+
+  for (;;) {
+    skipWhitespace(cursor);
+    if (cursor.pos >= bytes.length) break;
+
+    const c = bytes[cursor.pos];
+    if (c === 0x2f || c === 0x28 || c === 0x3c || c === 0x5b) {
+      try {
+        operands.push(parseValue(cursor));
+      } catch (error) {
+        // Damaged operand; drop it and carry on with the next token
+        cursor.pos++;
+      }
+      continue;
+    }
+    if (isDelimiter(c)) {
+      // Stray closing delimiters and braces carry no meaning here
+      cursor.pos++;
+      continue;
+    }
+
+    const token = readToken(cursor);
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      operands.push(parseFloat(token));
+    } else if (token === 'true' || token === 'false') {
+      operands.push(token === 'true');
+    } else if (token === 'null') {
+      operands.push(null);
+    } else if (token === 'BI') {
+      const dict = pdfDict();
+      const dictStart = cursor.pos;
+      try {
+        while (cursor.pos < bytes.length && peekToken(cursor) !== 'ID') {
+          const key = parseValue(cursor);
+          if (!isName(key)) break;
+          dict.entries.set(key.name, parseValue(cursor));
+        }
+      } catch (error) {
+        // Damaged image dictionary; keep what was read and move on to the ID that starts the data
+        let id = indexOfSequence(bytes, 'ID', dictStart);
+        while (id >= 0 && (isRegular(bytes[id - 1]) || bytes[id - 1] === 0x2f || isRegular(bytes[id + 2]))) {
+          id = indexOfSequence(bytes, 'ID', id + 1);
+        }
+        cursor.pos = id < 0 ? bytes.length : id;
+      }
+      readToken(cursor);
+      // The data ends at the first EI that stands on its own
+      let end = indexOfSequence(bytes, 'EI', cursor.pos + 1);
+      while (end >= 0 && !(isWhitespace(bytes[end - 1]) && (end + 2 >= bytes.length || !isRegular(bytes[end + 2])))) {
+        end = indexOfSequence(bytes, 'EI', end + 1);
+      }
+      cursor.pos = end < 0 ? bytes.length : end + 2;
+      operations.push({ operator: 'BI', operands: [dict] });
+      operands = [];
+    } else {
+      operations.push({ operator: token, operands });
+      operands = [];
+    }
+  }
+  return operations;
+};
@@ -0,0 +1,167 @@
+import { PdfTextRun } from "@/utils/pdfText";
+
+// Rebuilds the reading order of a page from positioned text runs: runs are
+// grouped into lines and lines into blocks, columns are found by cutting the
+// page along the gaps between blocks (XY-cut), and words broken with a hyphen
+// at the end of a line are joined again.
+
+interface TextLine {
+  runs: PdfTextRun[];
+  // Baseline, left and right edge in page space
+  y: number;
+  x0: number;
+  x1: number;
+  fontSize: number;
+}
+
+interface TextBlock {
+  lines: TextLine[];
+  x0: number;
+  x1: number;
+  top: number;
+  bottom: number;
+}
+
+// Share of the font size within which runs count as being on the same baseline
+const LINE_TOLERANCE = 0.5;
+// Gaps between runs wider than this share of the font size are read as spaces
+const SPACE_GAP = 0.15;
+// Wider gaps, in font sizes, separate runs into different lines (column gutters, table cells)
+const MAX_WORD_GAP = 1.5;
+// Largest distance between baselines, in font sizes, of lines in the same block
+const MAX_LINE_SPACING = 1.6;
+// Once a block has a line spacing, a gap this much wider is a paragraph break
+const PARAGRAPH_GAP = 1.3;
+// Lines whose font sizes differ by more than this ratio start a new block
+const MAX_SIZE_RATIO = 1.3;
+// Ascent and descent as shares of the font size, for the extent of a block
+const ASCENT = 0.8;
+const DESCENT = 0.2;
+
+const getRight = (run: PdfTextRun) => run.x + run.width;
+
+// Text drawn twice at almost the same spot (fake bold, shadows) is kept once
+const isDuplicate = (line: TextLine, run: PdfTextRun) =>
+  line.runs.some(other => other.text === run.text && Math.abs(other.x - run.x) < 1 && Math.abs(other.y - run.y) < 1);
+
+const groupLines = (runs: PdfTextRun[]): TextLine[] => {
+  const lines: TextLine[] = [];
+  const sorted = runs.filter(run => run.text.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+  for (const run of sorted) {
+    const size = Math.max(run.fontSize, 1);
+    const line = lines.find(
+      candidate =>
+        Math.abs(candidate.y - run.y) <= Math.max(candidate.fontSize, size) * LINE_TOLERANCE &&
+        run.x <= candidate.x1 + size * MAX_WORD_GAP &&
+        getRight(run) >= candidate.x0 - size * MAX_WORD_GAP
+    );
+    if (!line) {
+      lines.push({ runs: [run], y: run.y, x0: run.x, x1: getRight(run), fontSize: size });
+    } else if (!isDuplicate(line, run)) {
+      line.runs.push(run);
+      line.x0 = Math.min(line.x0, run.x);
+      line.x1 = Math.max(line.x1, getRight(run));
+      line.fontSize = Math.max(line.fontSize, size);
+    }
+  }
+  lines.forEach(line => line.runs.sort((a, b) => a.x - b.x));
+  return lines;
+};
+
+const getLineText = (line: TextLine) => {
+  let text = '';
+  let previous: PdfTextRun | null = null;
+  for (const run of line.runs) {
+    const gap = previous ? run.x - getRight(previous) : 0;
+    if (previous && gap > line.fontSize * SPACE_GAP && !/\s$/.test(text) && !/^\s/.test(run.text)) text += ' ';
+    text += run.text;
+    previous = run;
+  }
+  return text.trim();
+};
+
+const overlaps = (a0: number, a1: number, b0: number, b1: number) => Math.min(a1, b1) > Math.max(a0, b0);
+
+const groupBlocks = (lines: TextLine[]): TextBlock[] => {
+  const blocks: TextBlock[] = [];
+  for (const line of [...lines].sort((a, b) => b.y - a.y || a.x0 - b.x0)) {
+    const block = blocks.find(candidate => {
+      const last = candidate.lines[candidate.lines.length - 1];
+      const spacing = last.y - line.y;
+      const previous = candidate.lines[candidate.lines.length - 2];
+      const maxSpacing = previous ? (previous.y - last.y) * PARAGRAPH_GAP : Math.max(last.fontSize, line.fontSize) * MAX_LINE_SPACING;
+      const ratio = Math.max(last.fontSize, line.fontSize) / Math.min(last.fontSize, line.fontSize);
+      return spacing > 0 && spacing <= maxSpacing && ratio <= MAX_SIZE_RATIO && overlaps(candidate.x0, candidate.x1, line.x0, line.x1);
+    });
+    if (block) {
+      block.lines.push(line);
+      block.x0 = Math.min(block.x0, line.x0);
+      block.x1 = Math.max(block.x1, line.x1);
+      block.bottom = Math.min(block.bottom, line.y - line.fontSize * DESCENT);
+    } else {
+      blocks.push({
+        lines: [line],
+        x0: line.x0,
+        x1: line.x1,
+        top: line.y + line.fontSize * ASCENT,
+        bottom: line.y - line.fontSize * DESCENT,
+      });
+    }
+  }
+  return blocks;
+};
+
+// Splits blocks into groups along the gaps of one axis; groups come out in
+// the order of the axis (left to right, or top to bottom)
+const splitAtGaps = (blocks: TextBlock[], getStart: (block: TextBlock) => number, getEnd: (block: TextBlock) => number) => {
+  const sorted = [...blocks].sort((a, b) => getStart(a) - getStart(b));
+  const groups: TextBlock[][] = [];
+  let end = -Infinity;
+  for (const block of sorted) {
+    if (getStart(block) >= end) groups.push([]);
+    groups[groups.length - 1].push(block);
+    end = Math.max(end, getEnd(block));
+  }
+  return groups;
+};
+
+const splitColumns = (blocks: TextBlock[]) => splitAtGaps(blocks, block => block.x0, block => block.x1);
+
+// Bands from top to bottom; page space has y growing upwards
+const splitBands = (blocks: TextBlock[]) => splitAtGaps(blocks, block => -block.top, block => -block.bottom);
+
+const orderBlocks = (blocks: TextBlock[]): TextBlock[] => {
+  if (blocks.length <= 1) return blocks;
+
+  const columns = splitColumns(blocks);
+  if (columns.length > 1) return columns.flatMap(orderBlocks);
+
+  // Neighbouring bands that share a gutter belong to the same set of columns,
+  // for example paragraphs that happen to end at the same height in both columns
+  const regions: TextBlock[][] = [];
+  for (const band of splitBands(blocks)) {
+    const last = regions[regions.length - 1];
+    if (last && splitColumns([...last, ...band]).length > 1) last.push(...band);
+    else regions.push(band);
+  }
+  if (regions.length > 1) return regions.flatMap(orderBlocks);
+
+  // Blocks that overlap both ways are read top to bottom, then left to right
+  return [...blocks].sort((a, b) => b.top - a.top || a.x0 - b.x0);
+};
+
+// Joins the lines of a block, removing the hyphen of a word broken across two lines
+const getBlockText = (block: TextBlock) =>
+  block.lines.map(getLineText).reduce((text, line) => {
+    if (!text) return line;
+    if (text.endsWith('\u00ad')) return text.slice(0, -1) + line;
+    if (/\p{L}[-\u2010]$/u.test(text) && /^\p{Ll}/u.test(line)) return text.slice(0, -1) + line;
+    return `${text}\n${line}`;
+  }, '');
+
+// The text of a page in reading order, with a blank line between blocks
+export const orderTextRuns = (runs: PdfTextRun[]): string =>
+  orderBlocks(groupBlocks(groupLines(runs)))
+    .map(getBlockText)
+    .filter(Boolean)
+    .join('\n\n');
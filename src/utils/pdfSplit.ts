@@ -0,0 +1,193 @@
+import { PdfDict, PdfValue, bytesToLatin1, copyDict, isRef, pdfDict } from "@/utils/pdfObjects";
+import { PdfDocument, PdfPage, getPageAttribute, getPageContents, getPages, resolveDict } from "@/utils/pdfReader";
+import { PdfOutlineItem, readOutline } from "@/utils/pdfOutline";
+import { extractPageText } from "@/utils/pdfText";
+import { allocateRef, createPdfWriter, finishPdf, importPages } from "@/utils/pdfWriter";
+
+// Resource categories that content streams refer to by name
+const NAMED_RESOURCE_TYPES = ['Font', 'XObject', 'ExtGState', 'ColorSpace', 'Pattern', 'Shading', 'Properties'];
+
+const decodeName = (name: string) =>
+  name.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+
+// Drops resource entries the page's content never names, so a page that shares
+// a document-wide /Resources dictionary does not carry every font along with it
+const pruneResources = async (doc: PdfDocument, page: PdfPage): Promise<PdfPage> => {
+  const resources = resolveDict(doc, getPageAttribute(page, 'Resources'));
+  if (!resources) return page;
+
+  let content: string;
+  try {
+    content = bytesToLatin1(await getPageContents(doc, page));
+  } catch (error) {
+    // Keep everything when the content cannot be decoded
+    return page;
+  }
+
+  const usedNames = new Set<string>();
+  for (const match of content.matchAll(/\/([^\s/[\]()<>{}%]+)/g)) {
+    usedNames.add(decodeName(match[1]));
+  }
+
+  const pruned = pdfDict();
+  resources.entries.forEach((value, key) => {
+    const category = resolveDict(doc, value);
+    if (!NAMED_RESOURCE_TYPES.includes(key) || !category) {
+      pruned.entries.set(key, value);
+      return;
+    }
+    const kept = pdfDict();
+    category.entries.forEach((entry: PdfValue, name) => {
+      if (usedNames.has(name)) kept.entries.set(name, entry);
+    });
+    pruned.entries.set(key, kept);
+  });
+
+  const dict: PdfDict = copyDict(page.dict);
+  dict.entries.set('Resources', pruned);
+  return { ...page, dict };
+};
+
+// Builds a standalone PDF from the given 1-based page numbers, in the order given
+export const extractPdfPages = async (doc: PdfDocument, pageNumbers: number[], title?: string): Promise<Uint8Array> => {
+  const pages = getPages(doc);
+  const selected = pageNumbers.map(pageNumber => {
+    const page = pages[pageNumber - 1];
+    if (!page) {
+      throw new Error(`Page ${pageNumber} does not exist (the document has ${pages.length} pages)`);
+    }
+    return page;
+  });
+
+  const writer = createPdfWriter();
+  const pagesRef = allocateRef(writer);
+  const prunedPages = await Promise.all(selected.map(page => pruneResources(doc, page)));
+  const pageRefs = importPages(writer, doc, prunedPages, pagesRef);
+  return finishPdf(writer, pagesRef, pageRefs, { title });
+};
+
+export interface PdfBookmarkSection {
+  title: string;
+  // 1-based page numbers covered by the section
+  pages: number[];
+}
+
+export const getOutlineDepth = (items: PdfOutlineItem[]): number =>
+  items.reduce((max, item) => Math.max(max, 1 + getOutlineDepth(item.children)), 0);
+
+// Cuts the document where the bookmarks of the given depth (1 = top level) start.
+// Each section runs up to the next such bookmark; pages before the first one
+// become a "Front matter" section. When several bookmarks start on the same page
+// the first one in outline order names the section.
+export const getBookmarkSections = (doc: PdfDocument, depth: number): PdfBookmarkSection[] => {
+  const pages = getPages(doc);
+  const pageIndex = new Map(pages.map((page, index) => [page.ref.num, index]));
+  const starts: { title: string; index: number }[] = [];
+
+  const collect = (items: PdfOutlineItem[], level: number) => {
+    for (const item of items) {
+      const target = item.dest?.[0];
+      // Destinations in other documents use a page number instead of a reference
+      const index = isRef(target) ? pageIndex.get(target.num) : typeof target === 'number' ? target : undefined;
+      if (index !== undefined && index >= 0 && index < pages.length) {
+        starts.push({ title: item.title.trim(), index });
+      }
+      if (level < depth) collect(item.children, level + 1);
+    }
+  };
+  collect(readOutline(doc), 1);
+
+  const sorted = starts
+    .map((start, order) => ({ ...start, order }))
+    .sort((a, b) => a.index - b.index || a.order - b.order)
+    .filter((start, position, all) => position === 0 || all[position - 1].index !== start.index);
+  if (sorted.length === 0) return [];
+  if (sorted[0].index > 0) sorted.unshift({ title: 'Front matter', index: 0, order: -1 });
+
+  return sorted.map((start, position) => {
+    const end = position + 1 < sorted.length ? sorted[position + 1].index : pages.length;
+    return {
+      title: start.title || `Section ${position + 1}`,
+      pages: Array.from({ length: end - start.index }, (_, i) => start.index + i + 1),
+    };
+  });
+};
+
+export interface PdfSizedPart {
+  pages: number[];
+  // Serialized size of the part in bytes
+  size: number;
+}
+
+// Room left for the document title, which is only known once the part is named
+const TITLE_ALLOWANCE = 512;
+
+// Packs consecutive pages into parts whose extracted PDF, shared fonts and images
+// included, stays within maxBytes. Each part grows by doubling and then binary
+// search, so a part costs a logarithmic number of trial extractions. A page that
+// is too large on its own still becomes a part by itself.
+export const getSizeLimitedParts = async (doc: PdfDocument, maxBytes: number): Promise<PdfSizedPart[]> => {
+  const pageCount = getPages(doc).length;
+  const measure = async (first: number, last: number) =>
+    (await extractPdfPages(doc, Array.from({ length: last - first + 1 }, (_, i) => first + i))).length + TITLE_ALLOWANCE;
+
+  const parts: PdfSizedPart[] = [];
+  for (let first = 1; first <= pageCount;) {
+    let fits = first;
+    let fitsSize = await measure(first, first);
+    let tooBig = pageCount + 1;
+    // Grow the part until it overflows or reaches the end of the document
+    for (let step = 1; fitsSize <= maxBytes && fits < pageCount;) {
+      const candidate = Math.min(fits + step, pageCount);
+      const size = await measure(first, candidate);
+      if (size > maxBytes) {
+        tooBig = candidate;
+        break;
+      }
+      fits = candidate;
+      fitsSize = size;
+      step *= 2;
+    }
+    while (fitsSize <= maxBytes && tooBig - fits > 1) {
+      const middle = Math.floor((fits + tooBig) / 2);
+      const size = await measure(first, middle);
+      if (size > maxBytes) {
+        tooBig = middle;
+      } else {
+        fits = middle;
+        fitsSize = size;
+      }
+    }
+    parts.push({ pages: Array.from({ length: fits - first + 1 }, (_, i) => first + i), size: fitsSize - TITLE_ALLOWANCE });
+    first = fits + 1;
+  }
+  return parts;
+};
+
+export interface PdfPatternSection {
+  // The matched text, or its first capture group when the pattern has one
+  match: string;
+  pages: number[];
+}
+
+// Starts a new section on every page whose text matches the pattern. Pages
+// before the first match form a leading section with an empty match.
+export const getPatternSections = async (doc: PdfDocument, pattern: RegExp): Promise<PdfPatternSection[]> => {
+  const sections: PdfPatternSection[] = [];
+  const pages = getPages(doc);
+
+  for (let i = 0; i < pages.length; i++) {
+    let text = '';
+    try {
+      text = await extractPageText(doc, pages[i]);
+    } catch (error) {
+      console.warn(`Could not read the text of page ${i + 1}:`, error);
+    }
+    const match = text.match(pattern);
+    if (match || sections.length === 0) {
+      sections.push({ match: match ? (match[1] ?? match[0]).trim() : '', pages: [] });
+    }
+    sections[sections.length - 1].pages.push(i + 1);
+  }
+  return sections;
+};
@@ -0,0 +1,460 @@
+import { PdfDict, PdfValue, dictGet, isDict, isName, isStream, isString } from "@/utils/pdfObjects";
+import {
+  PdfDocument,
+  PdfPage,
+  decodeStream,
+  getPageAttribute,
+  getPageContents,
+  getPages,
+  loadPdf,
+  parseContentStream,
+  resolveDict,
+  resolveValue,
+} from "@/utils/pdfReader";
+import { PdfFontStyle, measureText } from "@/utils/pdfLayout";
+import { PdfEncodingName, getEncodingTable, glyphNameToUnicode } from "@/utils/pdfEncodings";
+import { orderTextRuns } from "@/utils/pdfReadingOrder";
+
+// Interprets the text-showing operators of a page: fonts are mapped to Unicode
+// through /ToUnicode CMaps or their encodings, and every string is placed on
+// the page with the text and graphics matrices and the glyph widths.
+
+export interface PdfTextRun {
+  text: string;
+  // Start of the baseline in page space, and the length of the run along it
+  x: number;
+  y: number;
+  width: number;
+  // Font size in page space
+  fontSize: number;
+}
+
+// 'stream' keeps the order in which the page draws its text; 'reading' rebuilds
+// lines, blocks and columns from the positions
+export type PdfTextOrder = 'stream' | 'reading';
+
+interface PdfFontDecoder {
+  // Byte length of each character code
+  codeLength: 1 | 2;
+  toUnicode: Map<number, string> | null;
+  // Unicode of single-byte codes from /Encoding and /Differences
+  encoding: (string | undefined)[] | null;
+  widths: Map<number, number>;
+  // Width of codes missing from /Widths or /W; null estimates them from the standard font metrics
+  defaultWidth: number | null;
+  // Glyph space to text space: 1/1000 except for Type 3 fonts
+  widthScale: number;
+  style: PdfFontStyle;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+interface PdfGraphicsState {
+  ctm: Matrix;
+  font: PdfFontDecoder | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  rise: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const MAX_FORM_DEPTH = 8;
+const LIGATURES = /[\ufb00-\ufb06]/g;
+
+// Simple fonts without an /Encoding are read as WinAnsi, the most common one
+const DEFAULT_ENCODING: PdfEncodingName = 'WinAnsiEncoding';
+const ENCODING_NAMES = new Set<string>(['WinAnsiEncoding', 'MacRomanEncoding', 'StandardEncoding']);
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const translate = (m: Matrix, tx: number, ty: number) => multiply([1, 0, 0, 1, tx, ty], m);
+
+const transformPoint = (m: Matrix, x: number, y: number) => ({ x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] });
+
+const toNumber = (value: PdfValue) => (typeof value === 'number' ? value : 0);
+
+const toMatrix = (value: PdfValue): Matrix | null =>
+  Array.isArray(value) && value.length === 6 ? (value.map(toNumber) as Matrix) : null;
+
+const decodeUtf16 = (bytes: Uint8Array) => {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  return text;
+};
+
+const readCode = (bytes: Uint8Array) => bytes.reduce((code, byte) => code * 256 + byte, 0);
+
+// Reads the bfchar and bfrange mappings of a /ToUnicode CMap. CMaps share the
+// content stream syntax, so the mappings arrive as operands of endbfchar/endbfrange.
+const parseToUnicode = (bytes: Uint8Array) => {
+  const map = new Map<number, string>();
+  let codeLength: 1 | 2 | null = null;
+
+  for (const { operator, operands } of parseContentStream(bytes)) {
+    if (operator === 'endcodespacerange' && isString(operands[0])) {
+      codeLength = operands[0].bytes.length === 1 ? 1 : 2;
+    } else if (operator === 'endbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const [source, target] = [operands[i], operands[i + 1]];
+        if (isString(source) && isString(target)) map.set(readCode(source.bytes), decodeUtf16(target.bytes));
+      }
+    } else if (operator === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [low, high, target] = [operands[i], operands[i + 1], operands[i + 2]];
+        if (!isString(low) || !isString(high)) continue;
+        const first = readCode(low.bytes);
+        const last = Math.min(readCode(high.bytes), first + 0xffff);
+        for (let code = first; code <= last; code++) {
+          if (Array.isArray(target)) {
+            const entry = target[code - first];
+            if (isString(entry)) map.set(code, decodeUtf16(entry.bytes));
+          } else if (isString(target) && target.bytes.length >= 2) {
+            // The last UTF-16 unit counts up through the range
+            const base = decodeUtf16(target.bytes);
+            map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - first));
+          }
+        }
+      }
+    }
+  }
+  return { map, codeLength };
+};
+
+// Base encoding plus /Differences: [code /name1 /name2 ... code /name ...]
+const readEncoding = (doc: PdfDocument, value: PdfValue) => {
+  const encoding = resolveValue(doc, value);
+  const baseName = isDict(encoding) ? resolveValue(doc, dictGet(encoding, 'BaseEncoding')) : encoding;
+  const table = [...getEncodingTable(isName(baseName) && ENCODING_NAMES.has(baseName.name) ? baseName.name as PdfEncodingName : DEFAULT_ENCODING)];
+
+  const differences = isDict(encoding) ? resolveValue(doc, dictGet(encoding, 'Differences')) : null;
+  let code = 0;
+  for (const item of Array.isArray(differences) ? differences : []) {
+    if (typeof item === 'number') {
+      code = item;
+    } else if (isName(item)) {
+      if (code < 256) table[code] = glyphNameToUnicode(item.name);
+      code++;
+    }
+  }
+  return table;
+};
+
+// Widths of a CIDFont: [first [w1 w2 ...] first last w ...]
+const readCidWidths = (doc: PdfDocument, value: PdfValue) => {
+  const widths = new Map<number, number>();
+  const items = resolveValue(doc, value);
+  if (!Array.isArray(items)) return widths;
+  for (let i = 0; i < items.length; ) {
+    const first = toNumber(resolveValue(doc, items[i]));
+    const next = resolveValue(doc, items[i + 1]);
+    if (Array.isArray(next)) {
+      next.forEach((width, index) => widths.set(first + index, toNumber(resolveValue(doc, width))));
+      i += 2;
+    } else {
+      const last = Math.min(toNumber(next), first + 0xffff);
+      const width = toNumber(resolveValue(doc, items[i + 2]));
+      for (let code = first; code <= last; code++) widths.set(code, width);
+      i += 3;
+    }
+  }
+  return widths;
+};
+
+const getFontStyle = (baseFont: string, flags: number): PdfFontStyle => {
+  // Flag bit 1 marks fixed-pitch fonts
+  if (/courier|mono/i.test(baseFont) || flags & 1) return 'mono';
+  return /bold|black|heavy/i.test(baseFont) ? 'bold' : 'regular';
+};
+
+const fontCache = new WeakMap<PdfDict, PdfFontDecoder>();
+
+const getFontDecoder = async (doc: PdfDocument, font: PdfDict): Promise<PdfFontDecoder> => {
+  const cached = fontCache.get(font);
+  if (cached) return cached;
+
+  const subtype = resolveValue(doc, dictGet(font, 'Subtype'));
+  const composite = isName(subtype, 'Type0');
+  const descendants = resolveValue(doc, dictGet(font, 'DescendantFonts'));
+  const cidFont = composite && Array.isArray(descendants) ? resolveDict(doc, descendants[0]) : null;
+  const descriptor = resolveDict(doc, dictGet(cidFont ?? font, 'FontDescriptor'));
+  const baseFont = resolveValue(doc, dictGet(font, 'BaseFont'));
+  const fontMatrix = toMatrix(resolveValue(doc, dictGet(font, 'FontMatrix')));
+
+  const decoder: PdfFontDecoder = {
+    codeLength: composite ? 2 : 1,
+    toUnicode: null,
+    encoding: composite ? null : readEncoding(doc, dictGet(font, 'Encoding')),
+    widths: new Map(),
+    defaultWidth: null,
+    widthScale: isName(subtype, 'Type3') && fontMatrix ? fontMatrix[0] : 0.001,
+    style: getFontStyle(isName(baseFont) ? baseFont.name : '', toNumber(resolveValue(doc, dictGet(descriptor, 'Flags')))),
+  };
+
+  if (cidFont) {
+    decoder.widths = readCidWidths(doc, dictGet(cidFont, 'W'));
+    const defaultWidth = resolveValue(doc, dictGet(cidFont, 'DW'));
+    decoder.defaultWidth = typeof defaultWidth === 'number' ? defaultWidth : 1000;
+  } else {
+    const widths = resolveValue(doc, dictGet(font, 'Widths'));
+    const firstChar = toNumber(resolveValue(doc, dictGet(font, 'FirstChar')));
+    if (Array.isArray(widths)) {
+      widths.forEach((width, index) => decoder.widths.set(firstChar + index, toNumber(resolveValue(doc, width))));
+      decoder.defaultWidth = toNumber(resolveValue(doc, dictGet(descriptor, 'MissingWidth')));
+    }
+  }
+
+  const toUnicode = resolveValue(doc, dictGet(font, 'ToUnicode'));
+  if (isStream(toUnicode)) {
+    try {
+      const { map, codeLength } = parseToUnicode(await decodeStream(doc, toUnicode));
+      decoder.toUnicode = map;
+      // Only a composite font's own CMap says how long its codes are
+      if (composite && codeLength) {
+        const encoding = resolveValue(doc, dictGet(font, 'Encoding'));
+        if (!isName(encoding, 'Identity-H') && !isName(encoding, 'Identity-V')) decoder.codeLength = codeLength;
+      }
+    } catch (error) {
+      console.warn('Could not read a /ToUnicode CMap:', error);
+    }
+  }
+  fontCache.set(font, decoder);
+  return decoder;
+};
+
+const getCharText = (decoder: PdfFontDecoder, code: number) =>
+  decoder.toUnicode?.get(code) ?? (decoder.encoding ? decoder.encoding[code] : undefined) ?? '';
+
+const getCharWidth = (decoder: PdfFontDecoder, code: number, text: string) =>
+  decoder.widths.get(code) ?? decoder.defaultWidth ?? measureText(text || ' ', 1000, decoder.style);
+
+interface PdfTextContext {
+  runs: PdfTextRun[];
+  state: PdfGraphicsState;
+  // Text matrix and text line matrix of the current BT ... ET block
+  text: Matrix;
+  line: Matrix;
+}
+
+// Shows a string at the text matrix and moves the matrix past it
+const showString = (context: PdfTextContext, bytes: Uint8Array) => {
+  const { state } = context;
+  const decoder = state.font;
+  if (!decoder) return;
+
+  const start = transformPoint(multiply(context.text, state.ctm), 0, state.rise);
+  const scale = multiply(context.text, state.ctm);
+  let text = '';
+  for (let i = 0; i + decoder.codeLength <= bytes.length; i += decoder.codeLength) {
+    const code = decoder.codeLength === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+    const char = getCharText(decoder, code);
+    text += char;
+    // Word spacing applies to the single-byte code 32 only
+    const wordSpacing = decoder.codeLength === 1 && code === 32 ? state.wordSpacing : 0;
+    const advance = (getCharWidth(decoder, code, char) * decoder.widthScale * state.fontSize + state.charSpacing + wordSpacing) *
+      state.horizontalScale;
+    context.text = translate(context.text, advance, 0);
+  }
+
+  const end = transformPoint(multiply(context.text, state.ctm), 0, state.rise);
+  if (!text) return;
+  context.runs.push({
+    // Ligature glyphs come out as their letters so the text can be searched
+    text: text.replace(LIGATURES, ligature => ligature.normalize('NFKC')),
+    x: start.x,
+    y: start.y,
+    width: Math.hypot(end.x - start.x, end.y - start.y),
+    fontSize: Math.abs(state.fontSize) * Math.hypot(scale[2], scale[3]),
+  });
+};
+
+const collectRuns = async (
+  doc: PdfDocument,
+  content: Uint8Array,
+  resources: PdfDict | null,
+  context: PdfTextContext,
+  depth: number
+) => {
+  const fonts = resolveDict(doc, dictGet(resources, 'Font'));
+  const xObjects = resolveDict(doc, dictGet(resources, 'XObject'));
+  const stack: PdfGraphicsState[] = [];
+
+  const moveLine = (tx: number, ty: number) => {
+    context.line = translate(context.line, tx, ty);
+    context.text = context.line;
+  };
+
+  for (const { operator, operands } of parseContentStream(content)) {
+    const numbers = operands.map(toNumber);
+    const { state } = context;
+    switch (operator) {
+      case 'q':
+        stack.push({ ...state });
+        break;
+      case 'Q':
+        context.state = stack.pop() ?? state;
+        break;
+      case 'cm':
+        state.ctm = multiply(numbers.slice(0, 6) as Matrix, state.ctm);
+        break;
+      case 'BT':
+        context.text = IDENTITY;
+        context.line = IDENTITY;
+        break;
+      case 'Tf': {
+        const font = isName(operands[0]) ? resolveDict(doc, dictGet(fonts, operands[0].name)) : null;
+        state.font = font ? await getFontDecoder(doc, font) : null;
+        state.fontSize = numbers[1];
+        break;
+      }
+      case 'Tc':
+        state.charSpacing = numbers[0];
+        break;
+      case 'Tw':
+        state.wordSpacing = numbers[0];
+        break;
+      case 'Tz':
+        state.horizontalScale = numbers[0] / 100;
+        break;
+      case 'TL':
+        state.leading = numbers[0];
+        break;
+      case 'Ts':
+        state.rise = numbers[0];
+        break;
+      case 'Td':
+        moveLine(numbers[0], numbers[1]);
+        break;
+      case 'TD':
+        state.leading = -numbers[1];
+        moveLine(numbers[0], numbers[1]);
+        break;
+      case 'Tm':
+        context.line = numbers.slice(0, 6) as Matrix;
+        context.text = context.line;
+        break;
+      case 'T*':
+        moveLine(0, -state.leading);
+        break;
+      case "'":
+        moveLine(0, -state.leading);
+        if (isString(operands[0])) showString(context, operands[0].bytes);
+        break;
+      case '"':
+        state.wordSpacing = numbers[0];
+        state.charSpacing = numbers[1];
+        moveLine(0, -state.leading);
+        if (isString(operands[2])) showString(context, operands[2].bytes);
+        break;
+      case 'Tj':
+        if (isString(operands[0])) showString(context, operands[0].bytes);
+        break;
+      case 'TJ':
+        for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+          if (typeof item === 'number') {
+            // Adjustments are in thousandths of an em and move against the writing direction
+            context.text = translate(context.text, (-item / 1000) * state.fontSize * state.horizontalScale, 0);
+          } else if (isString(item)) {
+            showString(context, item.bytes);
+          }
+        }
+        break;
+      case 'Do': {
+        const name = operands[0];
+        const xObject = isName(name) ? resolveValue(doc, dictGet(xObjects, name.name)) : null;
+        if (depth < MAX_FORM_DEPTH && isStream(xObject) && isName(resolveValue(doc, dictGet(xObject.dict, 'Subtype')), 'Form')) {
+          const formResources = resolveDict(doc, dictGet(xObject.dict, 'Resources')) ?? resources;
+          const matrix = toMatrix(resolveValue(doc, dictGet(xObject.dict, 'Matrix'))) ?? IDENTITY;
+          const saved = { state, text: context.text, line: context.line };
+          context.state = { ...state, ctm: multiply(matrix, state.ctm) };
+          await collectRuns(doc, await decodeStream(doc, xObject), formResources, context, depth + 1);
+          Object.assign(context, saved);
+        }
+        break;
+      }
+    }
+  }
+};
+
+// The strings a page shows, positioned on the page, in content stream order
+export const extractPageRuns = async (doc: PdfDocument, page: PdfPage): Promise<PdfTextRun[]> => {
+  const context: PdfTextContext = {
+    runs: [],
+    state: {
+      ctm: IDENTITY,
+      font: null,
+      fontSize: 0,
+      charSpacing: 0,
+      wordSpacing: 0,
+      horizontalScale: 1,
+      leading: 0,
+      rise: 0,
+    },
+    text: IDENTITY,
+    line: IDENTITY,
+  };
+  const resources = resolveDict(doc, getPageAttribute(page, 'Resources'));
+  await collectRuns(doc, await getPageContents(doc, page), resources, context, 0);
+  return context.runs;
+};
+
+// Runs whose baselines are further apart than this share of the font size start a new line
+const LINE_TOLERANCE = 0.5;
+// Gaps between runs wider than this share of the font size are read as spaces
+const SPACE_GAP = 0.15;
+
+// Joins runs in the order they were drawn: a new line whenever the baseline
+// moves, a space wherever the gap to the previous run is wider than a space
+export const joinTextRuns = (runs: PdfTextRun[]): string => {
+  let text = '';
+  let previous: PdfTextRun | null = null;
+  for (const run of runs) {
+    if (previous) {
+      const size = Math.max(run.fontSize, previous.fontSize, 1);
+      const gap = run.x - (previous.x + previous.width);
+      if (Math.abs(run.y - previous.y) > size * LINE_TOLERANCE) {
+        text = text.trimEnd() + '\n';
+      } else if ((gap > size * SPACE_GAP || gap < -size) && !/\s$/.test(text) && !/^\s/.test(run.text)) {
+        text += ' ';
+      }
+    }
+    text += run.text;
+    previous = run;
+  }
+  return text.trim();
+};
+
+export const extractPageText = async (doc: PdfDocument, page: PdfPage, order: PdfTextOrder = 'stream'): Promise<string> => {
+  const runs = await extractPageRuns(doc, page);
+  return order === 'reading' ? orderTextRuns(runs) : joinTextRuns(runs);
+};
+
+// Text of every page of a PDF, with a blank line between pages. Pages that
+// cannot be read are left out rather than failing the whole document.
+export const extractPdfText = async (
+  data: ArrayBuffer | Uint8Array,
+  order: PdfTextOrder,
+  onProgress?: (done: number, total: number) => void
+): Promise<string> => {
+  const doc = await loadPdf(data);
+  const pages = getPages(doc);
+  const texts: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    try {
+      texts.push(await extractPageText(doc, pages[i], order));
+    } catch (error) {
+      console.warn(`Could not read the text of page ${i + 1}:`, error);
+    }
+    onProgress?.(i + 1, pages.length);
+  }
+  return texts.filter(Boolean).join('\n\n');
+};
@@ -0,0 +1,306 @@
+import {
+  PdfDict,
+  PdfRef,
+  PdfValue,
+  dictGet,
+  isDict,
+  isName,
+  isRef,
+  isStream,
+  latin1ToBytes,
+  pdfDict,
+  pdfName,
+  pdfRef,
+  pdfString,
+} from "@/utils/pdfObjects";
+import { INHERITABLE_PAGE_KEYS, PdfDocument, PdfPage, getObject, resolveValue } from "@/utils/pdfReader";
+
+export interface PdfWriter {
+  // Object number N lives at index N - 1
+  objects: PdfValue[];
+}
+
+// Maps object numbers of one source document to their numbers in the output.
+// A null entry means references to that object are dropped.
+export type PdfRefMap = Map<number, PdfRef | null>;
+
+export interface PdfOutputOptions {
+  title?: string;
+  // Extra catalog entries such as /Outlines or /AcroForm
+  catalog?: Record<string, PdfValue>;
+}
+
+export const createPdfWriter = (): PdfWriter => ({ objects: [] });
+
+export const allocateRef = (writer: PdfWriter): PdfRef => {
+  writer.objects.push(null);
+  return pdfRef(writer.objects.length);
+};
+
+export const setObject = (writer: PdfWriter, ref: PdfRef, value: PdfValue) => {
+  writer.objects[ref.num - 1] = value;
+};
+
+export const addObject = (writer: PdfWriter, value: PdfValue): PdfRef => {
+  const ref = allocateRef(writer);
+  setObject(writer, ref, value);
+  return ref;
+};
+
+// Deep-copies a value from a source document into the writer, renumbering every
+// indirect object it reaches. Page tree nodes, the catalog, pages that were not
+// registered in refMap beforehand and annotations on those pages are not followed,
+// so a link annotation or a form field cannot drag the rest of the source
+// document along with it.
+export const importValue = (writer: PdfWriter, doc: PdfDocument, value: PdfValue, refMap: PdfRefMap): PdfValue => {
+  const pending: { source: PdfValue; target: PdfRef }[] = [];
+
+  const copy = (current: PdfValue): PdfValue => {
+    if (Array.isArray(current)) {
+      return current.map(copy);
+    }
+    if (isRef(current)) {
+      if (refMap.has(current.num)) {
+        return refMap.get(current.num);
+      }
+      const source = getObject(doc, current.num);
+      const sourceDict = isStream(source) ? source.dict : isDict(source) ? source : null;
+      const type = dictGet(sourceDict, 'Type');
+      const page = dictGet(sourceDict, 'P');
+      const leftOutAnnotation = dictGet(sourceDict, 'Subtype') !== null && isRef(page) && !refMap.get(page.num);
+      if (isName(type, 'Page') || isName(type, 'Pages') || isName(type, 'Catalog') || leftOutAnnotation) {
+        refMap.set(current.num, null);
+        return null;
+      }
+      const target = allocateRef(writer);
+      refMap.set(current.num, target);
+      pending.push({ source, target });
+      return target;
+    }
+    if (isDict(current)) {
+      const dict = pdfDict();
+      current.entries.forEach((entry, key) => dict.entries.set(key, copy(entry)));
+      return dict;
+    }
+    if (isStream(current)) {
+      const dict = pdfDict();
+      current.dict.entries.forEach((entry, key) => {
+        // The length is recomputed on output
+        if (key !== 'Length') dict.entries.set(key, copy(entry));
+      });
+      return { kind: 'stream', dict, data: current.data };
+    }
+    return current;
+  };
+
+  const result = copy(value);
+  // Referenced objects are copied iteratively so long /Next chains cannot overflow the stack
+  while (pending.length > 0) {
+    const { source, target } = pending.pop();
+    setObject(writer, target, copy(source));
+  }
+  return result;
+};
+
+// Copies pages into the writer under a new parent. Inherited attributes are
+// flattened onto each page since the source page tree is not carried over.
+export const importPages = (
+  writer: PdfWriter,
+  doc: PdfDocument,
+  pages: PdfPage[],
+  parentRef: PdfRef,
+  refMap: PdfRefMap = new Map()
+): PdfRef[] => {
+  // Register every page first so that links between them resolve to the copies.
+  // A page listed twice gets a second copy; links keep pointing at the first one.
+  const claimed = new Set<number>();
+  const pageRefs = pages.map(page => {
+    const existing = refMap.get(page.ref.num);
+    if (existing && !claimed.has(existing.num)) {
+      claimed.add(existing.num);
+      return existing;
+    }
+    const target = allocateRef(writer);
+    if (!existing) refMap.set(page.ref.num, target);
+    claimed.add(target.num);
+    return target;
+  });
+
+  pages.forEach((page, index) => {
+    const dict = pdfDict();
+    page.dict.entries.forEach((value, key) => {
+      if (key !== 'Parent') dict.entries.set(key, value);
+    });
+    for (const key of INHERITABLE_PAGE_KEYS) {
+      if (!dict.entries.has(key) && page.inherited.has(key)) {
+        dict.entries.set(key, page.inherited.get(key));
+      }
+    }
+
+    // A second copy gets annotations of its own, since an annotation's /P
+    // can only name one page. Everything else is shared with the first copy.
+    let pageRefMap = refMap;
+    if (refMap.get(page.ref.num) !== pageRefs[index]) {
+      pageRefMap = new Map(refMap);
+      pageRefMap.set(page.ref.num, pageRefs[index]);
+      const annots = dictGet(page.dict, 'Annots');
+      if (isRef(annots)) pageRefMap.delete(annots.num);
+      const annotList = resolveValue(doc, annots);
+      if (Array.isArray(annotList)) {
+        annotList.forEach(annot => {
+          if (isRef(annot)) pageRefMap.delete(annot.num);
+        });
+      }
+    }
+
+    const copied = importValue(writer, doc, dict, pageRefMap) as PdfDict;
+    copied.entries.set('Parent', parentRef);
+    setObject(writer, pageRefs[index], copied);
+  });
+
+  return pageRefs;
+};
+
+const formatDate = (date: Date) => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+const formatNumber = (value: number) => {
+  if (!isFinite(value)) return '0';
+  if (Number.isInteger(value)) return value.toString();
+  const fixed = value.toFixed(6).replace(/0+$/, '').replace(/\.$/, '');
+  return fixed === '-0' ? '0' : fixed;
+};
+
+const formatName = (name: string) => {
+  let out = '/';
+  for (let i = 0; i < name.length; i++) {
+    const code = name.charCodeAt(i) & 0xff;
+    if (code < 0x21 || code > 0x7e || '()<>[]{}/%#'.includes(name[i])) {
+      out += '#' + code.toString(16).padStart(2, '0');
+    } else {
+      out += name[i];
+    }
+  }
+  return out;
+};
+
+const formatString = (bytes: Uint8Array, hex: boolean) => {
+  if (hex) {
+    return '<' + Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('') + '>';
+  }
+  let out = '(';
+  for (const b of bytes) {
+    if (b === 0x28 || b === 0x29 || b === 0x5c) {
+      out += '\\' + String.fromCharCode(b);
+    } else if (b < 0x20 || b > 0x7e) {
+      out += '\\' + b.toString(8).padStart(3, '0');
+    } else {
+      out += String.fromCharCode(b);
+    }
+  }
+  return out + ')';
+};
+
+// Serializes everything except stream data, which the caller appends separately
+const formatValue = (value: PdfValue): string => {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return formatNumber(value);
+  if (Array.isArray(value)) return '[' + value.map(formatValue).join(' ') + ']';
+  switch (value.kind) {
+    case 'name':
+      return formatName(value.name);
+    case 'string':
+      return formatString(value.bytes, !!value.hex);
+    case 'ref':
+      return `${value.num} ${value.gen} R`;
+    case 'dict': {
+      let out = '<<';
+      value.entries.forEach((entry, key) => {
+        out += formatName(key) + ' ' + formatValue(entry);
+      });
+      return out + '>>';
+    }
+    case 'stream':
+      return formatValue(value.dict);
+  }
+};
+
+export const serializePdf = (writer: PdfWriter, trailer: PdfDict): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const push = (chunk: Uint8Array | string) => {
+    const bytes = typeof chunk === 'string' ? latin1ToBytes(chunk) : chunk;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  // The binary comment marks the file as 8-bit for transfer tools
+  push('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n');
+
+  const offsets: number[] = [];
+  writer.objects.forEach((value, index) => {
+    offsets.push(length);
+    push(`${index + 1} 0 obj\n`);
+    if (isStream(value)) {
+      const dict = pdfDict();
+      value.dict.entries.forEach((entry, key) => dict.entries.set(key, entry));
+      dict.entries.set('Length', value.data.length);
+      push(formatValue(dict) + '\nstream\n');
+      push(value.data);
+      push('\nendstream');
+    } else {
+      push(formatValue(value));
+    }
+    push('\nendobj\n');
+  });
+
+  const xrefOffset = length;
+  let xref = `xref\n0 ${writer.objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) {
+    xref += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  }
+  push(xref);
+
+  const trailerDict = pdfDict();
+  trailer.entries.forEach((entry, key) => trailerDict.entries.set(key, entry));
+  trailerDict.entries.set('Size', writer.objects.length + 1);
+  push(`trailer\n${formatValue(trailerDict)}\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+// Writes the page tree, catalog and document info for pages already imported under pagesRef
+export const finishPdf = (writer: PdfWriter, pagesRef: PdfRef, pageRefs: PdfRef[], options: PdfOutputOptions = {}): Uint8Array => {
+  setObject(writer, pagesRef, pdfDict({
+    Type: pdfName('Pages'),
+    Kids: pageRefs,
+    Count: pageRefs.length,
+  }));
+
+  const catalogRef = addObject(writer, pdfDict({
+    Type: pdfName('Catalog'),
+    Pages: pagesRef,
+    ...options.catalog,
+  }));
+
+  const info = pdfDict({
+    Producer: pdfString('DocForge'),
+    CreationDate: pdfString(formatDate(new Date())),
+  });
+  if (options.title) {
+    info.entries.set('Title', pdfString(options.title));
+  }
+  const infoRef = addObject(writer, info);
+
+  return serializePdf(writer, pdfDict({ Root: catalogRef, Info: infoRef }));
+};
@@ -0,0 +1,272 @@
+import {
+  OoxmlPackage,
+  OoxmlRelationship,
+  RELATIONSHIPS_NS,
+  addRelationship,
+  copyPart,
+  getMainPartName,
+  getRelationshipsPartName,
+  loadPackage,
+  readRelationships,
+  readRelationshipsDocument,
+  readXmlPart,
+  removeAppProperties,
+  savePackage,
+  writeXmlPart,
+} from "@/utils/ooxmlPackage";
+
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const P14_NS = 'http://schemas.microsoft.com/office/powerpoint/2010/main';
+const SECTION_LIST_URI = '{521415D9-36F7-43E2-AB2F-B90AF26B5E84}';
+
+// Slide ids start at 256; master and layout ids share one range starting at 2^31
+const FIRST_SLIDE_ID = 256;
+const FIRST_MASTER_ID = 2147483648;
+
+// Schema order of the <p:presentation> children that may have to be created
+const PRESENTATION_CHILD_ORDER = [
+  'sldMasterIdLst', 'notesMasterIdLst', 'handoutMasterIdLst', 'sldIdLst', 'sldSz', 'notesSz', 'smartTags',
+  'embeddedFontLst', 'custShowLst', 'photoAlbum', 'custDataLst', 'kinsoku', 'defaultTextStyle', 'modifyVerifier', 'extLst',
+];
+
+// 'keep' copies every deck's own masters; 'first' moves all slides onto the first deck's layouts
+export type PptxMasterMode = 'keep' | 'first';
+
+export interface PptxMergeOptions {
+  masters?: PptxMasterMode;
+  // Section names for decks that have no sections of their own, used when the
+  // merged deck needs a section list
+  sectionTitles?: string[];
+}
+
+interface PptxSource {
+  pkg: OoxmlPackage;
+  mainName: string;
+  presentation: Document;
+  rels: OoxmlRelationship[];
+}
+
+interface LayoutInfo {
+  name: string;
+  type: string;
+  title: string;
+}
+
+const children = (parent: Element, localName: string) =>
+  Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (node as Element).localName === localName
+  );
+
+const getRelId = (element: Element) => element.getAttributeNS(RELATIONSHIPS_NS, 'id') || '';
+
+const getIds = (list: Element | undefined, localName: string) =>
+  list ? children(list, localName).map(element => parseInt(element.getAttribute('id') || '0', 10)) : [];
+
+// Returns a presentation-level list element, creating it in schema order
+const ensureList = (root: Element, localName: string) => {
+  const existing = children(root, localName)[0];
+  if (existing) return existing;
+
+  const list = root.ownerDocument.createElementNS(P_NS, `p:${localName}`);
+  const position = PRESENTATION_CHILD_ORDER.indexOf(localName);
+  const next = Array.from(root.childNodes).find(
+    node => node.nodeType === 1 && PRESENTATION_CHILD_ORDER.indexOf((node as Element).localName) > position
+  );
+  root.insertBefore(list, next ?? null);
+  return list;
+};
+
+const appendIdEntry = (list: Element, localName: string, id: number | null, relId: string) => {
+  const entry = list.ownerDocument.createElementNS(P_NS, `p:${localName}`);
+  if (id !== null) entry.setAttribute('id', `${id}`);
+  entry.setAttributeNS(RELATIONSHIPS_NS, 'r:id', relId);
+  list.appendChild(entry);
+};
+
+const loadSource = async (data: ArrayBuffer | Uint8Array): Promise<PptxSource> => {
+  const pkg = await loadPackage(data);
+  const mainName = await getMainPartName(pkg);
+  const presentation = await readXmlPart(pkg, mainName);
+  if (!presentation) {
+    throw new Error(`Missing ${mainName}`);
+  }
+  return { pkg, mainName, presentation, rels: await readRelationships(pkg, mainName) };
+};
+
+const getMasterNames = (source: PptxSource) => {
+  const byId = new Map(source.rels.map(rel => [rel.id, rel.target]));
+  const list = children(source.presentation.documentElement, 'sldMasterIdLst')[0];
+  return list ? children(list, 'sldMasterId').map(entry => byId.get(getRelId(entry)) ?? '').filter(Boolean) : [];
+};
+
+const readLayoutInfo = async (pkg: OoxmlPackage, name: string): Promise<LayoutInfo> => {
+  const layout = await readXmlPart(pkg, name);
+  const cSld = layout?.getElementsByTagNameNS(P_NS, 'cSld')[0];
+  return { name, type: layout?.documentElement.getAttribute('type') || '', title: cSld?.getAttribute('name') || '' };
+};
+
+// Layouts of every master in the deck, grouped per master in presentation order
+const readLayouts = async (source: PptxSource): Promise<LayoutInfo[][]> =>
+  Promise.all(getMasterNames(source).map(async master => {
+    const layouts = (await readRelationships(source.pkg, master)).filter(rel => rel.type === 'slideLayout');
+    return Promise.all(layouts.map(rel => readLayoutInfo(source.pkg, rel.target)));
+  }));
+
+// Picks the first deck's layout that best stands in for a source layout: same
+// layout type on the first master, then same layout name, then a content layout
+const matchLayout = (layout: LayoutInfo, targets: LayoutInfo[][]) => {
+  const primary = targets[0] ?? [];
+  return (
+    (layout.type && layout.type !== 'cust' ? primary.find(target => target.type === layout.type) : undefined) ??
+    targets.flat().find(target => layout.title !== '' && target.title === layout.title) ??
+    primary.find(target => target.type === 'obj') ??
+    primary[0]
+  );
+};
+
+const getSectionList = (root: Element) => {
+  for (const ext of children(children(root, 'extLst')[0] ?? root, 'ext')) {
+    if (ext.getAttribute('uri') === SECTION_LIST_URI) {
+      return ext.getElementsByTagNameNS(P14_NS, 'sectionLst')[0] ?? null;
+    }
+  }
+  return null;
+};
+
+const createSection = (sectionList: Element, title: string, slideIds: number[]) => {
+  const doc = sectionList.ownerDocument;
+  const section = doc.createElementNS(P14_NS, 'p14:section');
+  section.setAttribute('name', title);
+  section.setAttribute('id', `{${crypto.randomUUID().toUpperCase()}}`);
+  const list = doc.createElementNS(P14_NS, 'p14:sldIdLst');
+  for (const id of slideIds) {
+    const entry = doc.createElementNS(P14_NS, 'p14:sldId');
+    entry.setAttribute('id', `${id}`);
+    list.appendChild(entry);
+  }
+  section.appendChild(list);
+  sectionList.appendChild(section);
+};
+
+const ensureSectionList = (root: Element, existingSlideIds: number[]) => {
+  const existing = getSectionList(root);
+  if (existing) return existing;
+
+  const doc = root.ownerDocument;
+  const ext = doc.createElementNS(P_NS, 'p:ext');
+  ext.setAttribute('uri', SECTION_LIST_URI);
+  const sectionList = doc.createElementNS(P14_NS, 'p14:sectionLst');
+  ext.appendChild(sectionList);
+  ensureList(root, 'extLst').appendChild(ext);
+  // Once a deck has sections every slide has to belong to one
+  if (existingSlideIds.length > 0) {
+    createSection(sectionList, 'Default Section', existingSlideIds);
+  }
+  return sectionList;
+};
+
+// Appends the slides of several .pptx files to the first deck. Slides are copied
+// with their layouts, masters, themes, notes and media; slide, master and layout
+// ids are renumbered so they stay unique in the merged presentation.xml.
+export const mergePptxDocuments = async (
+  sources: (ArrayBuffer | Uint8Array)[],
+  options: PptxMergeOptions = {}
+): Promise<Uint8Array> => {
+  if (sources.length === 0) {
+    throw new Error('No presentations to merge');
+  }
+
+  const decks = await Promise.all(sources.map(loadSource));
+  const target = decks[0];
+  const { pkg, mainName } = target;
+  const root = target.presentation.documentElement;
+  const rels = await readRelationshipsDocument(pkg, mainName);
+
+  const slideList = ensureList(root, 'sldIdLst');
+  const masterList = ensureList(root, 'sldMasterIdLst');
+  const originalSlideIds = getIds(slideList, 'sldId');
+  let nextSlideId = Math.max(FIRST_SLIDE_ID - 1, ...originalSlideIds) + 1;
+
+  const targetLayouts = await readLayouts(target);
+  const targetMasters = getMasterNames(target);
+  const layoutIds = await Promise.all(targetMasters.map(async master => {
+    const xml = await readXmlPart(pkg, master);
+    return xml ? getIds(xml.getElementsByTagNameNS(P_NS, 'sldLayoutIdLst')[0], 'sldLayoutId') : [];
+  }));
+  let nextMasterId = Math.max(FIRST_MASTER_ID - 1, ...getIds(masterList, 'sldMasterId'), ...layoutIds.flat()) + 1;
+
+  // A presentation has at most one notes master, so every deck's notes share it
+  let notesMaster = target.rels.find(rel => rel.type === 'notesMaster')?.target ?? null;
+
+  const needsSections = decks.some(deck => getSectionList(deck.presentation.documentElement) !== null);
+  const sectionList = needsSections ? ensureSectionList(root, originalSlideIds) : null;
+
+  for (let index = 1; index < decks.length; index++) {
+    const source = decks[index];
+    const relsById = new Map(source.rels.map(rel => [rel.id, rel]));
+    const copied = new Map<string, string>();
+
+    const sourceNotesMaster = source.rels.find(rel => rel.type === 'notesMaster');
+    if (sourceNotesMaster && notesMaster) {
+      copied.set(sourceNotesMaster.target, notesMaster);
+    } else if (sourceNotesMaster) {
+      notesMaster = await copyPart(source.pkg, pkg, sourceNotesMaster.target, copied);
+      const relId = addRelationship(rels, mainName, sourceNotesMaster.typeUri, notesMaster);
+      appendIdEntry(ensureList(root, 'notesMasterIdLst'), 'notesMasterId', null, relId);
+    }
+
+    // Pointing the source layouts at existing ones keeps copyPart from pulling in the source masters
+    if (options.masters === 'first' && targetLayouts.flat().length > 0) {
+      for (const layout of (await readLayouts(source)).flat()) {
+        const match = matchLayout(layout, targetLayouts);
+        if (match) copied.set(layout.name, match.name);
+      }
+    }
+
+    const slideIds = new Map<string, number>();
+    const sourceSlideList = children(source.presentation.documentElement, 'sldIdLst')[0];
+    for (const entry of sourceSlideList ? children(sourceSlideList, 'sldId') : []) {
+      const rel = relsById.get(getRelId(entry));
+      if (!rel || rel.external) continue;
+      const slide = await copyPart(source.pkg, pkg, rel.target, copied);
+      const id = nextSlideId++;
+      appendIdEntry(slideList, 'sldId', id, addRelationship(rels, mainName, rel.typeUri, slide));
+      slideIds.set(entry.getAttribute('id') || '', id);
+    }
+
+    // Register the masters that came along with the slides and renumber their layouts
+    for (const master of getMasterNames(source)) {
+      const copiedMaster = copied.get(master);
+      if (!copiedMaster || targetMasters.includes(copiedMaster)) continue;
+      const masterRel = source.rels.find(rel => rel.target === master);
+      appendIdEntry(masterList, 'sldMasterId', nextMasterId++, addRelationship(rels, mainName, masterRel?.typeUri ?? '', copiedMaster));
+
+      const xml = await readXmlPart(pkg, copiedMaster);
+      if (!xml) continue;
+      for (const layoutId of Array.from(xml.getElementsByTagNameNS(P_NS, 'sldLayoutId'))) {
+        layoutId.setAttribute('id', `${nextMasterId++}`);
+      }
+      writeXmlPart(pkg, copiedMaster, xml);
+    }
+
+    if (sectionList) {
+      const sourceSections = getSectionList(source.presentation.documentElement);
+      if (sourceSections) {
+        for (const section of children(sourceSections, 'section')) {
+          const ids = getIds(children(section, 'sldIdLst')[0], 'sldId')
+            .map(id => slideIds.get(`${id}`))
+            .filter((id): id is number => id !== undefined);
+          createSection(sectionList, section.getAttribute('name') || '', ids);
+        }
+      } else {
+        createSection(sectionList, options.sectionTitles?.[index] ?? `Presentation ${index + 1}`, [...slideIds.values()]);
+      }
+    }
+  }
+
+  writeXmlPart(pkg, mainName, target.presentation);
+  writeXmlPart(pkg, getRelationshipsPartName(mainName), rels);
+  // The slide and word counts of the first deck no longer apply
+  await removeAppProperties(pkg, ['Slides', 'Notes', 'HiddenSlides', 'Words', 'Paragraphs']);
+  return savePackage(pkg);
+};
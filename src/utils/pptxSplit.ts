@@ -0,0 +1,165 @@
+import {
+  OoxmlPackage,
+  RELATIONSHIPS_NS,
+  getMainPartName,
+  getRelationshipsPartName,
+  loadPackage,
+  parseXml,
+  readRelationships,
+  readRelationshipsDocument,
+  readXmlPart,
+  removeAppProperties,
+  removeUnreachableParts,
+  savePackage,
+  serializeXml,
+  writeXmlPart,
+} from "@/utils/ooxmlPackage";
+
+const P14_NS = 'http://schemas.microsoft.com/office/powerpoint/2010/main';
+const PACKAGE_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export interface PptxSection {
+  title: string;
+  // 1-based slide numbers
+  slides: number[];
+}
+
+const children = (parent: Element, localName: string) =>
+  Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && (node as Element).localName === localName
+  );
+
+const getRelId = (element: Element) => element.getAttributeNS(RELATIONSHIPS_NS, 'id') || '';
+
+const getSlideEntries = (presentation: Document) => {
+  const list = children(presentation.documentElement, 'sldIdLst')[0];
+  return list ? children(list, 'sldId') : [];
+};
+
+const getSectionList = (presentation: Document) =>
+  presentation.getElementsByTagNameNS(P14_NS, 'sectionLst')[0] ?? null;
+
+// Number of slides in the deck's slide list, whatever prefix the markup uses
+export const getPptxSlideCount = async (data: ArrayBuffer | Uint8Array): Promise<number> => {
+  const pkg = await loadPackage(data);
+  const mainName = await getMainPartName(pkg);
+  const presentation = await readXmlPart(pkg, mainName);
+  if (!presentation) {
+    throw new Error(`Missing ${mainName}`);
+  }
+  return getSlideEntries(presentation).length;
+};
+
+// The sections (p14:sectionLst) of a deck; empty when it has none
+export const getPptxSections = async (data: ArrayBuffer | Uint8Array): Promise<PptxSection[]> => {
+  const pkg = await loadPackage(data);
+  const presentation = await readXmlPart(pkg, await getMainPartName(pkg));
+  const sectionList = presentation && getSectionList(presentation);
+  if (!presentation || !sectionList) return [];
+
+  const positions = new Map(getSlideEntries(presentation).map((entry, index) => [entry.getAttribute('id') || '', index + 1]));
+  return children(sectionList, 'section').map(section => ({
+    title: section.getAttribute('name') || '',
+    slides: Array.from(section.getElementsByTagNameNS(P14_NS, 'sldId'))
+      .map(entry => positions.get(entry.getAttribute('id') || ''))
+      .filter((slide): slide is number => slide !== undefined),
+  }));
+};
+
+// Removes every element of a part that refers to one of the relationship ids
+const removeReferences = (xml: Document, relIds: Set<string>) => {
+  for (const element of Array.from(xml.getElementsByTagName('*'))) {
+    if (relIds.has(getRelId(element))) element.parentNode?.removeChild(element);
+  }
+};
+
+const removeRelationships = async (pkg: OoxmlPackage, name: string, relIds: Set<string>) => {
+  const rels = await readRelationshipsDocument(pkg, name);
+  for (const rel of Array.from(rels.getElementsByTagNameNS(PACKAGE_RELATIONSHIPS_NS, 'Relationship'))) {
+    if (relIds.has(rel.getAttribute('Id') || '')) rel.parentNode?.removeChild(rel);
+  }
+  writeXmlPart(pkg, getRelationshipsPartName(name), rels);
+};
+
+// Keeps the given slides, in the given order, and drops the layouts and masters
+// only the other slides used; their media and notes go with the unreachable parts
+const buildDeck = async (source: OoxmlPackage, mainName: string, slides: number[]): Promise<Uint8Array> => {
+  const pkg: OoxmlPackage = { parts: new Map(source.parts), contentTypes: parseXml(serializeXml(source.contentTypes)) };
+  const presentation = await readXmlPart(pkg, mainName);
+  if (!presentation) {
+    throw new Error(`Missing ${mainName}`);
+  }
+
+  const entries = getSlideEntries(presentation);
+  const kept = slides.map(slide => {
+    if (!entries[slide - 1]) {
+      throw new Error(`Slide ${slide} does not exist (the presentation has ${entries.length} slides)`);
+    }
+    return entries[slide - 1];
+  });
+  const slideList = children(presentation.documentElement, 'sldIdLst')[0];
+  entries.forEach(entry => slideList.removeChild(entry));
+  kept.forEach(entry => slideList.appendChild(entry.cloneNode(true)));
+
+  const rels = await readRelationships(pkg, mainName);
+  const keptSlides = new Set(kept.map(getRelId));
+  const removed = new Set(rels.filter(rel => rel.type === 'slide' && !keptSlides.has(rel.id)).map(rel => rel.id));
+
+  // Layouts used by the kept slides, and the masters they belong to
+  const usedLayouts = new Set<string>();
+  for (const rel of rels.filter(rel => keptSlides.has(rel.id))) {
+    for (const slideRel of await readRelationships(pkg, rel.target)) {
+      if (slideRel.type === 'slideLayout') usedLayouts.add(slideRel.target);
+    }
+  }
+  for (const rel of rels.filter(rel => rel.type === 'slideMaster')) {
+    const masterRels = await readRelationships(pkg, rel.target);
+    const unusedLayouts = new Set(
+      masterRels.filter(masterRel => masterRel.type === 'slideLayout' && !usedLayouts.has(masterRel.target)).map(masterRel => masterRel.id)
+    );
+    if (unusedLayouts.size === masterRels.filter(masterRel => masterRel.type === 'slideLayout').length) {
+      removed.add(rel.id);
+      continue;
+    }
+    const master = await readXmlPart(pkg, rel.target);
+    if (!master) continue;
+    removeReferences(master, unusedLayouts);
+    writeXmlPart(pkg, rel.target, master);
+    await removeRelationships(pkg, rel.target, unusedLayouts);
+  }
+
+  // Sections have to list the slides in deck order, so reordered parts lose them
+  const sectionList = getSectionList(presentation);
+  if (sectionList) {
+    const ids = new Set(kept.map(entry => entry.getAttribute('id') || ''));
+    const inOrder = slides.every((slide, index) => index === 0 || slide > slides[index - 1]);
+    for (const section of children(sectionList, 'section')) {
+      for (const entry of Array.from(section.getElementsByTagNameNS(P14_NS, 'sldId'))) {
+        if (!ids.has(entry.getAttribute('id') || '')) entry.parentNode?.removeChild(entry);
+      }
+      if (!inOrder || section.getElementsByTagNameNS(P14_NS, 'sldId').length === 0) sectionList.removeChild(section);
+    }
+    const ext = sectionList.parentNode as Element;
+    if (children(sectionList, 'section').length === 0) ext.parentNode?.removeChild(ext);
+  }
+
+  // The master list and custom shows refer to the removed parts by relationship id
+  removeReferences(presentation, removed);
+  writeXmlPart(pkg, mainName, presentation);
+  await removeRelationships(pkg, mainName, removed);
+  await removeUnreachableParts(pkg);
+  await removeAppProperties(pkg, ['Slides', 'Notes', 'HiddenSlides', 'Words', 'Paragraphs']);
+  return savePackage(pkg);
+};
+
+// Builds one standalone deck per group of 1-based slide numbers
+export const splitPptxDocument = async (data: ArrayBuffer | Uint8Array, groups: number[][]): Promise<Uint8Array[]> => {
+  const pkg = await loadPackage(data);
+  const mainName = await getMainPartName(pkg);
+  const decks: Uint8Array[] = [];
+  for (const slides of groups) {
+    // A slide can only appear once in a deck
+    decks.push(await buildDeck(pkg, mainName, [...new Set(slides)]));
+  }
+  return decks;
+};
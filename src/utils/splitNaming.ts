@@ -0,0 +1,120 @@
+// File naming patterns for split outputs. Every occurrence of a token is replaced:
+//   {n}, {start}, {end}  first (for {n} and {start}) and last page of the part
+//   {part}, {total}      position of the part and the number of parts
+//   {basename}           the original file name without its extension
+//   {bookmark}           the bookmark the part was cut at ({title} also works)
+//   {match}              the text that started the part when splitting on a pattern
+//   {group}              the column value shared by the rows of a CSV part
+//   {date}               today's date; {date:DD.MM.YYYY} picks the format
+// Numeric tokens take a zero-padded width, e.g. {n:03} gives 007.
+
+export interface SplitPartInfo {
+  // 1-based page numbers in the part
+  pages: number[];
+  bookmark?: string;
+  match?: string;
+  group?: string;
+}
+
+export interface SplitNamingContext {
+  basename: string;
+  date?: Date;
+}
+
+const TOKEN_PATTERN = /\{([A-Za-z]+)(?::([^{}]*))?\}/g;
+const NUMERIC_TOKENS = ['n', 'start', 'end', 'part', 'total'];
+const TEXT_TOKENS = ['basename', 'bookmark', 'title', 'match', 'group'];
+const ILLEGAL_CHARACTERS = /[\\/:*?"<>|]/g;
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+// Keeps a generated name usable as a file name on every common platform
+export const sanitizeFileName = (name: string) =>
+  Array.from(name.replace(/[\\/:*?"<>|]+/g, '_'))
+    .filter(char => char >= ' ')
+    .join('')
+    .trim()
+    .slice(0, 120) || 'untitled';
+
+const formatDate = (date: Date, format: string) => {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: date.getFullYear().toString(),
+    YY: pad(date.getFullYear() % 100),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, field => parts[field]);
+};
+
+// Problems with a naming pattern, as messages for the user; empty when it can be used
+export const validateNamingPattern = (pattern: string): string[] => {
+  const errors: string[] = [];
+  if (!pattern.trim()) return ['Enter a naming pattern'];
+
+  for (const [token, name, format] of pattern.matchAll(TOKEN_PATTERN)) {
+    const key = name.toLowerCase();
+    if (NUMERIC_TOKENS.includes(key)) {
+      if (format !== undefined && !/^\d{1,2}$/.test(format)) {
+        errors.push(`${token} needs a width, e.g. {${name}:03}`);
+      }
+    } else if (TEXT_TOKENS.includes(key)) {
+      if (format !== undefined) errors.push(`${token} does not take a format`);
+    } else if (key === 'date') {
+      if (format !== undefined && !/YYYY|YY|MM|DD|HH|mm|ss/.test(format)) {
+        errors.push(`${token} needs a date format, e.g. {date:YYYY-MM-DD}`);
+      }
+    } else {
+      errors.push(`Unknown token ${token}`);
+    }
+  }
+
+  // Text outside tokens, and date formats, end up in every file name as typed
+  const literal = pattern.replace(TOKEN_PATTERN, '');
+  if (/[{}]/.test(literal)) errors.push('Every { needs a matching }');
+  const typed = literal + [...pattern.matchAll(TOKEN_PATTERN)].map(([, , format]) => format ?? '').join('');
+  const illegal = [...new Set(typed.match(ILLEGAL_CHARACTERS) ?? [])];
+  if (illegal.length > 0) errors.push(`File names cannot contain ${illegal.join(' ')}`);
+  return errors;
+};
+
+// Fills the pattern for each part, without making the names unique
+export const fillNamingPattern = (pattern: string, parts: SplitPartInfo[], context: SplitNamingContext): string[] => {
+  const date = context.date ?? new Date();
+  return parts.map((part, index) => {
+    const numbers: Record<string, number> = {
+      n: part.pages[0] ?? 0,
+      start: part.pages[0] ?? 0,
+      end: part.pages[part.pages.length - 1] ?? 0,
+      part: index + 1,
+      total: parts.length,
+    };
+    const texts: Record<string, string> = {
+      basename: context.basename,
+      bookmark: part.bookmark ?? '',
+      title: part.bookmark ?? '',
+      match: part.match ?? '',
+      group: part.group ?? '',
+    };
+    return sanitizeFileName(pattern.replace(TOKEN_PATTERN, (token, name: string, format?: string) => {
+      const key = name.toLowerCase();
+      if (key in numbers) return numbers[key].toString().padStart(format ? parseInt(format, 10) : 0, '0');
+      if (key in texts) return texts[key];
+      if (key === 'date') return formatDate(date, format || DEFAULT_DATE_FORMAT);
+      return token;
+    }));
+  });
+};
+
+// Repeated names (compared case-insensitively) get a " (2)", " (3)", ... suffix
+export const makeUniqueNames = (names: string[]): string[] => {
+  const used = new Set<string>();
+  return names.map(name => {
+    let unique = name;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) unique = `${name} (${n})`;
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+};
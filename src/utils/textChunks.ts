@@ -0,0 +1,135 @@
+// Cuts plain text into chunks for retrieval pipelines. Chunks end at paragraph
+// breaks where possible, then at sentence ends, then between words; only a
+// single word longer than the budget is cut mid-word.
+
+export type TextChunkUnit = 'characters' | 'tokens';
+
+export interface TextChunkOptions {
+  unit: TextChunkUnit;
+  // Budget per chunk, in the chosen unit
+  size: number;
+  // How much of the end of a chunk is repeated at the start of the next one
+  overlap: number;
+}
+
+export interface TextChunk {
+  text: string;
+  // Position of the chunk in the original text, in code points (end exclusive)
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Rough average for English text with common tokenizers
+const CHARS_PER_TOKEN = 4;
+
+// Paragraph breaks, sentence ends and word breaks, from the preferred cut to the last resort
+const SEPARATORS = [/\n[ \t]*\n\s*/g, /(?<=[.!?…]["'”’)\]]*)\s+/g, /\s+/g];
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const measure = (text: string, unit: TextChunkUnit) => (unit === 'tokens' ? estimateTokens(text) : text.length);
+
+const trimSpan = (text: string, start: number, end: number): TextSpan | null => {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return start < end ? { start, end } : null;
+};
+
+// The pieces of a span between matches of a separator
+const splitSpan = (text: string, span: TextSpan, separator: RegExp): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  let start = span.start;
+  separator.lastIndex = span.start;
+  for (let match = separator.exec(text); match && match.index < span.end; match = separator.exec(text)) {
+    const piece = trimSpan(text, start, match.index);
+    if (piece) spans.push(piece);
+    start = match.index + match[0].length;
+  }
+  const last = trimSpan(text, start, span.end);
+  if (last) spans.push(last);
+  return spans;
+};
+
+// Breaks a span into pieces that each fit the budget, using the coarsest separator that works
+const getPieces = (text: string, span: TextSpan, level: number, options: TextChunkOptions): TextSpan[] => {
+  if (measure(text.slice(span.start, span.end), options.unit) <= options.size) return [span];
+  if (level === SEPARATORS.length) {
+    const step = options.unit === 'tokens' ? options.size * CHARS_PER_TOKEN : options.size;
+    const pieces: TextSpan[] = [];
+    for (let start = span.start; start < span.end; start += step) {
+      pieces.push({ start, end: Math.min(start + step, span.end) });
+    }
+    return pieces;
+  }
+  return splitSpan(text, span, SEPARATORS[level]).flatMap(piece => getPieces(text, piece, level + 1, options));
+};
+
+// Counts code points up to increasing positions without rescanning the text
+const createCodePointCounter = (text: string) => {
+  let index = 0;
+  let count = 0;
+  return (position: number) => {
+    for (; index < position; index++) {
+      const code = text.charCodeAt(index);
+      // The second half of a surrogate pair belongs to the same code point
+      if (code < 0xdc00 || code > 0xdfff) count++;
+    }
+    return count;
+  };
+};
+
+export const chunkText = (text: string, options: TextChunkOptions): TextChunk[] => {
+  if (!(options.size >= 1)) {
+    throw new Error('The chunk size has to be at least 1');
+  }
+  if (options.overlap < 0 || options.overlap >= options.size) {
+    throw new Error('The overlap has to be smaller than the chunk size');
+  }
+
+  const whole = trimSpan(text, 0, text.length);
+  const pieces = whole ? getPieces(text, whole, 0, options) : [];
+  const fits = (first: number, last: number) =>
+    measure(text.slice(pieces[first].start, pieces[last].end), options.unit) <= options.size;
+
+  const ranges: [number, number][] = [];
+  for (let first = 0; first < pieces.length; ) {
+    let last = first;
+    while (last + 1 < pieces.length && fits(first, last + 1)) last++;
+    ranges.push([first, last]);
+    if (last === pieces.length - 1) break;
+
+    // The next chunk starts with as many trailing pieces as fit the overlap,
+    // leaving room for at least one new piece
+    let next = last + 1;
+    while (
+      next - 1 > first &&
+      measure(text.slice(pieces[next - 1].start, pieces[last].end), options.unit) <= options.overlap &&
+      fits(next - 1, last + 1)
+    ) {
+      next--;
+    }
+    first = next;
+  }
+
+  const startOffset = createCodePointCounter(text);
+  const endOffset = createCodePointCounter(text);
+  return ranges.map(([first, last]) => {
+    const chunk = text.slice(pieces[first].start, pieces[last].end);
+    return {
+      text: chunk,
+      start: startOffset(pieces[first].start),
+      end: endOffset(pieces[last].end),
+      tokens: estimateTokens(chunk),
+    };
+  });
+};
+
+// One JSON object per line, numbered from 1
+export const formatChunksAsJsonl = (chunks: TextChunk[], source: string) =>
+  chunks.map((chunk, index) => JSON.stringify({ id: index + 1, source, ...chunk })).join('\n') + '\n';
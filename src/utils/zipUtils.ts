@@ -0,0 +1,180 @@
+// Minimal ZIP container support for the OOXML formats (DOCX, PPTX).
+// Entries are kept compressed until they are read.
+
+export interface ZipEntry {
+  name: string;
+  // 0 = stored, 8 = deflate
+  method: number;
+  crc32: number;
+  size: number;
+  compressed: Uint8Array;
+}
+
+const readUint16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const findEndOfCentralDirectory = (bytes: Uint8Array) => {
+  // The record is 22 bytes plus a comment of at most 64KB
+  const lowest = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let i = bytes.length - 22; i >= lowest; i--) {
+    if (readUint32(bytes, i) === 0x06054b50) return i;
+  }
+  return -1;
+};
+
+export const openZip = (data: ArrayBuffer | Uint8Array): Map<string, ZipEntry> => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const end = findEndOfCentralDirectory(bytes);
+  if (end < 0) {
+    throw new Error('Not a valid ZIP archive');
+  }
+
+  const count = readUint16(bytes, end + 10);
+  let offset = readUint32(bytes, end + 16);
+  if (offset === 0xffffffff || count === 0xffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (readUint32(bytes, offset) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = readUint16(bytes, offset + 10);
+    const crc32 = readUint32(bytes, offset + 16);
+    const compressedSize = readUint32(bytes, offset + 20);
+    const size = readUint32(bytes, offset + 24);
+    const nameLength = readUint16(bytes, offset + 28);
+    const extraLength = readUint16(bytes, offset + 30);
+    const commentLength = readUint16(bytes, offset + 32);
+    const localOffset = readUint32(bytes, offset + 42);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    // The local header repeats the name and may carry a different extra field
+    const dataStart = localOffset + 30 + readUint16(bytes, localOffset + 26) + readUint16(bytes, localOffset + 28);
+    if (!name.endsWith('/')) {
+      entries.set(name, { name, method, crc32, size, compressed: bytes.subarray(dataStart, dataStart + compressedSize) });
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+export const readZipEntry = async (entry: ZipEntry): Promise<Uint8Array> => {
+  if (entry.method === 0) {
+    return entry.compressed;
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported ZIP compression method ${entry.method} in ${entry.name}`);
+  }
+
+  const stream = new Blob([entry.compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+export const readZipText = async (entries: Map<string, ZipEntry>, name: string): Promise<string | null> => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+  return new TextDecoder('utf-8').decode(await readZipEntry(entry));
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const deflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Builds a ZIP archive. Entries read with openZip are copied without recompressing.
+export const createZip = async (files: { name: string; content: Uint8Array | ZipEntry }[]): Promise<Uint8Array> => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+
+  const entries: ZipEntry[] = await Promise.all(files.map(async ({ name, content }) => {
+    if (!(content instanceof Uint8Array)) {
+      return { ...content, name };
+    }
+    const compressed = await deflateRaw(content);
+    // Tiny parts can grow when deflated
+    return compressed.length < content.length
+      ? { name, method: 8, crc32: crc32(content), size: content.length, compressed }
+      : { name, method: 0, crc32: crc32(content), size: content.length, compressed: content };
+  }));
+
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, 0x0800, true); // UTF-8 names
+    view.setUint16(8, entry.method, true);
+    view.setUint16(10, dosTime, true);
+    view.setUint16(12, dosDate, true);
+    view.setUint32(14, entry.crc32, true);
+    view.setUint32(18, entry.compressed.length, true);
+    view.setUint32(22, entry.size, true);
+    view.setUint16(26, name.length, true);
+    header.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const recordView = new DataView(record.buffer);
+    recordView.setUint32(0, 0x02014b50, true);
+    recordView.setUint16(4, 20, true);
+    recordView.setUint16(6, 20, true);
+    recordView.setUint16(8, 0x0800, true);
+    recordView.setUint16(10, entry.method, true);
+    recordView.setUint16(12, dosTime, true);
+    recordView.setUint16(14, dosDate, true);
+    recordView.setUint32(16, entry.crc32, true);
+    recordView.setUint32(20, entry.compressed.length, true);
+    recordView.setUint32(24, entry.size, true);
+    recordView.setUint16(28, name.length, true);
+    recordView.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    chunks.push(header, entry.compressed);
+    central.push(record);
+    offset += header.length + entry.compressed.length;
+  }
+
+  const centralSize = central.reduce((sum, record) => sum + record.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Uint8Array(await new Blob([...chunks, ...central, end]).arrayBuffer());
+};